@@ -1,13 +1,69 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Webcam from 'react-webcam';
 import { HUD } from './components/HUD';
-import { AppMode, GeoLocation } from './types';
-import { LiveClient } from './services/liveClient';
-import { stopSpeaking as stopBrowserTTS, speak } from './services/speechService';
+import { HistoryPanel } from './components/HistoryPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SosOverlay } from './components/SosOverlay';
+import { AppMode, DocumentBlock, GeoLocation, SavedPlace } from './types';
+import { LiveClient, LiveStatus } from './services/liveClient';
+import { getSpeechScheduler, getVoicesForLocale, stopSpeaking as stopBrowserTTS, speak } from './services/speechService';
+import { SpeakOptions } from './services/speechScheduler';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
-import { analyzeSmartAssistant, selectBestModelForQuery } from './services/geminiService';
+import { useGuidanceHistory } from './hooks/useGuidanceHistory';
+import { useDocumentReader } from './hooks/useDocumentReader';
+import { useMoneyCounter } from './hooks/useMoneyCounter';
+import { useSavedPlaces } from './hooks/useSavedPlaces';
+import { analyzeSmartAssistant, extractDocumentPage, isReadingQuery, recognizeBanknote } from './services/geminiService';
+import { routeQuery, RoutingDecision } from './services/modelRouter';
+import { getModelInfo } from './services/modelRegistry';
+import { blockSpeech, findTotal, spellOut } from './services/documentReader';
+import { banknoteSpeech, MIN_BANKNOTE_CONFIDENCE, tallySpeech } from './services/moneyCounter';
+import { getRoutingBackend, Place } from './services/routingBackend';
+import { describeRouteDistance, distanceBetween, RouteTracker } from './services/routeGuidance';
+import { cleanPlaceLabel, findPlace, PlaceGeofence } from './services/placeGeofence';
+import { CaptureCoach, captureHint } from './services/captureQuality';
+import { FrameChangeDetector } from './services/frameChangeDetector';
+import { FallbackNavigator } from './services/navigationFallback';
+import { GuidanceDeduplicator } from './services/navigationGuidance';
+import { NavigationScheduler, waitWhile } from './services/navigationScheduler';
+import { MotionTracker } from './services/motionSensor';
+import { FallDetector } from './services/fallDetector';
+import { EmergencySos, SosState } from './services/emergencySos';
+import { isSosNotifierConfigured, SosTrigger } from './services/sosNotifier';
+import { HelperCall, HelperCallStatus } from './services/helperCall';
+import { getBudgetStatus, subscribeTelemetry } from './services/telemetry';
+import { getLocale, Locale, nextLocale, StringKey, t } from './services/i18n';
+import { IntentContext, IntentMatch, parseIntent, VoiceIntent } from './services/voiceIntents';
+import { hapticForGuidance, playHaptic, stopHaptics } from './services/hapticsService';
+import { playGuidanceEarcons } from './services/earconService';
+import { useLocale } from './hooks/useLocale';
+import { usePreferences } from './hooks/usePreferences';
+import { cadenceSettings, getPreferences, guidanceSpeechEnabled, parseSettingsCommand, resetPreferences, SETTING_ITEMS, SettingsCommand, subscribePreferences } from './services/preferences';
 
-const VIDEO_FPS = 2;
+// Camera frames per second streamed to the Live conversation (LIVE_VIDEO_FPS in .env.local)
+const VIDEO_FPS = Number(process.env.LIVE_VIDEO_FPS) || 2;
+// While the path stays clear and nothing changes, reassure the user this often
+const STILL_CLEAR_HEARTBEAT_MS = 15000;
+// Guidance that couldn't be spoken within this time describes a scene that has moved on
+const GUIDANCE_EXPIRY_MS = 4000;
+// Settings, language and help confirmations: prompt, and each one replaces the last
+const FEEDBACK_SPEECH: SpeakOptions = { priority: 'high', channel: 'feedback' };
+// Document text: a new block replaces the one being read
+const DOCUMENT_SPEECH: SpeakOptions = { priority: 'normal', channel: 'document' };
+// Framing hints: each replaces the last, and a stale one is dropped rather than said late
+const COACHING_SPEECH: SpeakOptions = { priority: 'high', channel: 'coaching', expiresInMs: 1500 };
+// Turn instructions rank below every hazard warning, which cuts them off; a missed advance warning is repeated
+const ROUTE_SPEECH: SpeakOptions = { priority: 'low', channel: 'route', expiresInMs: 10000 };
+// Saved place alerts: background information, like turn instructions
+const PLACE_SPEECH: SpeakOptions = { priority: 'low', channel: 'places', expiresInMs: 10000 };
+// SOS warnings cut off everything else; countdown numbers are skipped while a warning is still playing
+const SOS_SPEECH: SpeakOptions = { priority: 'critical', channel: 'sos' };
+const SOS_TICK_SPEECH: SpeakOptions = { priority: 'critical', channel: 'sosTick', expiresInMs: 900 };
+// Messages typed by a sighted helper: prompt, and never dropped or replaced by the next one
+const HELPER_SPEECH: SpeakOptions = { priority: 'high' };
+// Holding a finger anywhere on the screen this long calls for help
+const SOS_LONG_PRESS_MS = 3000;
 
 const videoConstraints = {
   width: { ideal: 640 },
@@ -20,12 +76,29 @@ const App: React.FC = () => {
   const webcamRef = useRef<Webcam>(null);
 
   const [mode, setMode] = useState<AppMode>(AppMode.IDLE);
-  const [statusText, setStatusText] = useState<string>("Ready");
+  const [statusText, setStatusText] = useState<string>(t('ready'));
   const [cameraError, setCameraError] = useState<boolean>(false);
-  const [isProMode, setIsProMode] = useState(false);
+  const [modelRoute, setModelRoute] = useState<RoutingDecision | null>(null);
   const [userLocation, setUserLocation] = useState<GeoLocation | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [transcript, setTranscript] = useState({ user: '', model: '' });
+  const [liveStatus, setLiveStatus] = useState<LiveStatus>('disconnected');
+  const [isOffline, setIsOffline] = useState(false);
+  const [routeInfo, setRouteInfo] = useState<{ place: string; remainingMeters: number } | null>(null);
+
+  const history = useGuidanceHistory();
+  const documents = useDocumentReader();
+  const money = useMoneyCounter();
+  const places = useSavedPlaces();
+  const [locale, setLocale] = useLocale();
+  const [prefs, updatePreferences] = usePreferences();
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsIndex, setSettingsIndex] = useState(0);
 
   const liveClientRef = useRef<LiveClient | null>(null);
+  // Set during a sighted helper call; the navigation loop pauses while it is
+  const helperCallRef = useRef<HelperCall | null>(null);
   const frameIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Request geolocation permission and start tracking
@@ -90,7 +163,7 @@ const App: React.FC = () => {
   const handleCameraError = useCallback((error: string | DOMException) => {
     console.error("Camera access error:", error);
     setCameraError(true);
-    setStatusText("Camera Error");
+    setStatusText(t('cameraError'));
   }, []);
 
   // --- Session Management (Live Navigation) ---
@@ -106,16 +179,26 @@ const App: React.FC = () => {
       liveClientRef.current = null;
     }
 
-    // Reset mode only if we were navigating
-    if (mode === AppMode.NAVIGATING) {
+    // Reset mode only if we were navigating or talking
+    if (mode === AppMode.NAVIGATING || mode === AppMode.LIVE) {
       setMode(AppMode.IDLE);
-      setStatusText("Ready");
+      setStatusText(t('ready'));
     }
   }, [mode]);
 
   // --- CONTINUOUS NAVIGATION MODE (like blind-nav-android) ---
   const isNavigatingRef = useRef(false);
 
+  // Walking directions follow GPS alongside the camera loop; bumping the generation drops pending route requests
+  const routeRef = useRef<RouteTracker | null>(null);
+  const routeGenerationRef = useRef(0);
+
+  const endRoute = useCallback(() => {
+    routeGenerationRef.current++;
+    routeRef.current = null;
+    setRouteInfo(null);
+  }, []);
+
   const startLiveNavigation = useCallback(async () => {
     console.log("🚀 Starting Continuous Navigation...");
     if (cameraError) {
@@ -123,6 +206,10 @@ const App: React.FC = () => {
       return;
     }
 
+    // Start motion sensing before any await (iOS only grants it inside the tap handler)
+    const motion = new MotionTracker();
+    motion.start();
+
     // Import the navigation function
     const { analyzeForNavigation } = await import('./services/geminiService');
 
@@ -131,13 +218,42 @@ const App: React.FC = () => {
     stopListening();
 
     setMode(AppMode.NAVIGATING);
-    setStatusText("Navigation Active");
+    setStatusText(t('navActive'));
     isNavigatingRef.current = true;
 
-    // Continuous navigation loop - analyze every 3 seconds
+    // Skip unchanged frames and repeated guidance
+    const frameDetector = new FrameChangeDetector();
+    const deduplicator = new GuidanceDeduplicator({ heartbeatMs: STILL_CLEAR_HEARTBEAT_MS });
+
+    // Adaptive cadence: faster when walking toward hazards, slower when standing still
+    const scheduler = new NavigationScheduler(cadenceSettings(), { isMoving: () => motion.isMoving() });
+    const stopCadenceUpdates = subscribePreferences(prefs => scheduler.setSettings(cadenceSettings(prefs)));
+    const keepNavigating = () => isNavigatingRef.current;
+
+    // On-device detection takes over when the cloud fails or is too slow
+    const fallback = new FallbackNavigator(analyzeForNavigation, {
+      onOfflineChange: (offline) => {
+        if (!isNavigatingRef.current) return;
+        setIsOffline(offline);
+        speak(offline ? t('offlineModeOn') : t('offlineModeOff'), 'critical');
+      },
+      onDetectorUnavailable: () => {
+        if (isNavigatingRef.current) speak(t('offlineModeUnavailable'), FEEDBACK_SPEECH);
+      },
+    });
+    fallback.prepare();
+
+    // Continuous navigation loop
     const navigationLoop = async () => {
       while (isNavigatingRef.current) {
+        const cycleStart = Date.now();
         try {
+          // A person is guiding: no AI guidance until the call ends
+          if (helperCallRef.current) {
+            await waitWhile(1000, keepNavigating);
+            continue;
+          }
+
           if (!webcamRef.current) {
             await new Promise(r => setTimeout(r, 1000));
             continue;
@@ -149,33 +265,64 @@ const App: React.FC = () => {
             continue;
           }
 
-          console.log("👀 Analyzing frame for navigation...");
-          const guidance = await analyzeForNavigation(imageSrc);
-          console.log("🗣️ Guidance:", guidance);
+          if (!(await frameDetector.hasChanged(imageSrc))) {
+            console.log("⏸️ Frame unchanged, skipping analysis");
+            const heartbeat = deduplicator.heartbeat();
+            if (isNavigatingRef.current && heartbeat) {
+              if (guidanceSpeechEnabled()) speak(heartbeat, { priority: 'low', channel: 'navigation', expiresInMs: GUIDANCE_EXPIRY_MS });
+              playHaptic('clear');
+            }
+          } else {
+            console.log("👀 Analyzing frame for navigation...");
+            const requestStart = Date.now();
+            const guidance = await fallback.analyze(imageSrc);
+            console.log("🗣️ Guidance:", guidance);
 
-          if (isNavigatingRef.current && guidance) {
-            setStatusText(guidance);
-            speak(guidance, 'high'); // High priority - interrupt previous speech
-          }
+            if (guidance) {
+              scheduler.recordLatency(Date.now() - requestStart);
+              scheduler.recordGuidance(guidance);
+            } else {
+              scheduler.recordError();
+            }
 
-          // Wait 2 seconds before next analysis (faster updates)
-          // But check if we should stop during the wait
-          for (let i = 0; i < 20 && isNavigatingRef.current; i++) {
-            await new Promise(r => setTimeout(r, 100));
+            if (isNavigatingRef.current && guidance) {
+              setStatusText(guidance.speech);
+              const toSay = deduplicator.filter(guidance);
+              if (toSay) {
+                // Earcons first: a short tone gives the bearing before the sentence starts
+                playGuidanceEarcons(guidance);
+                // Urgent hazards cut off answers; other guidance waits its turn and expires if it waits too long
+                const urgent = guidance.hazards.some(h => h.severity === 'high');
+                if (guidanceSpeechEnabled()) {
+                  speak(toSay, { priority: urgent ? 'critical' : 'normal', channel: 'navigation', expiresInMs: GUIDANCE_EXPIRY_MS });
+                }
+                hapticForGuidance(guidance);
+                history.record(AppMode.NAVIGATING, toSay);
+              } else {
+                console.log("🔁 Same guidance as before, not repeating");
+              }
+            }
           }
 
+          // Wait for the next slot, but stop promptly if navigation ends
+          await waitWhile(scheduler.nextDelayMs(Date.now() - cycleStart), keepNavigating);
+
         } catch (error) {
           console.error("Navigation error:", error);
-          await new Promise(r => setTimeout(r, 2000));
+          scheduler.recordError();
+          await waitWhile(scheduler.nextIntervalMs(), keepNavigating);
         }
       }
+      motion.stop();
+      stopCadenceUpdates();
+      setIsOffline(false);
     };
 
     // Start the navigation loop
     navigationLoop();
-    speak("Navigation started. I will guide you continuously.", 'high');
+    speak(t('navStarted'), 'high');
     console.log("✅ Continuous navigation started");
-  }, [cameraError, stopSession]);
+  }, [cameraError, stopSession, history.record]);
 
   // Update stopSession to stop navigation
   const stopNavigationAndSession = useCallback(() => {
@@ -184,99 +331,1113 @@ const App: React.FC = () => {
     stopSession();
     stopBrowserTTS();
     setMode(AppMode.IDLE);
-    setStatusText("Ready");
+    setStatusText(t('ready'));
   }, [stopSession]);
 
   const toggleNavigation = useCallback(() => {
     if (mode === AppMode.NAVIGATING) {
       isNavigatingRef.current = false;
+      endRoute();
       stopSession();
       stopBrowserTTS();
       setMode(AppMode.IDLE);
-      setStatusText("Ready");
-      speak("Navigation stopped.");
+      setStatusText(t('ready'));
+      stopHaptics();
+      speak(t('navStopped'), 'high');
     } else {
       startLiveNavigation();
     }
-  }, [mode, startLiveNavigation, stopSession]);
+  }, [mode, startLiveNavigation, stopSession, endRoute]);
+
+  // --- LIVE CONVERSATION MODE (Gemini Live, barge-in supported) ---
+
+  const startLiveConversation = useCallback(() => {
+    console.log("🎙️ Starting Live Conversation...");
+    if (cameraError) {
+      console.warn("⚠️ Camera error, cannot start live conversation");
+      return;
+    }
+
+    isNavigatingRef.current = false;
+    stopSession();
+    stopBrowserTTS();
+    stopListening();
+    stopAlwaysListening(); // Live client needs the mic for itself
+
+    setMode(AppMode.LIVE);
+    setStatusText(t('connecting'));
+    setTranscript({ user: '', model: '' });
+
+    // Finished turns go to history, the running text goes to the HUD
+    let lastModelText = '';
+
+    const client = new LiveClient({
+      onAudioData: (text, role) => {
+        if (text === null) {
+          if (role === 'model' && lastModelText) {
+            history.record(AppMode.LIVE, lastModelText);
+            lastModelText = '';
+          }
+          return;
+        }
+        if (role === 'model') lastModelText = text;
+        setTranscript(prev => ({
+          // A new user turn replaces the previous exchange
+          user: role === 'user' ? text : prev.user,
+          model: role === 'model' ? text : (role === 'user' && prev.model ? '' : prev.model),
+        }));
+      },
+      onStatusChange: (status, detail) => {
+        // Ignore events from a client we already replaced
+        if (liveClientRef.current !== client) return;
+        setLiveStatus(status);
+
+        switch (status) {
+          case 'connecting':
+            setStatusText(t('connecting'));
+            break;
+          case 'connected':
+            setStatusText(t('talkingWithGuide'));
+            if (detail?.resumed !== undefined) {
+              speak(detail.resumed ? t('reconnected') : t('reconnectedContextLost'), 'high');
+            }
+            break;
+          case 'reconnecting':
+            setStatusText(t('reconnectingAttempt', { attempt: detail?.attempt ?? 1 }));
+            // Announce the drop once, not on every retry
+            if (detail?.attempt === 1) speak(t('connectionLostReconnecting'), 'high');
+            break;
+          case 'degraded':
+            setStatusText(t('connectionDegraded', { reason: detail?.reason || 'unstable' }));
+            if (detail?.reason === 'microphone unavailable') speak(t('micUnavailable'), 'high');
+            break;
+          case 'failed':
+          case 'disconnected':
+            if (frameIntervalRef.current) {
+              clearInterval(frameIntervalRef.current);
+              frameIntervalRef.current = null;
+            }
+            liveClientRef.current = null;
+            setMode(AppMode.IDLE);
+            setStatusText(status === 'failed' ? t('connectionLost') : t('ready'));
+            if (status === 'failed') speak(t('couldNotReconnect'), 'high');
+            break;
+        }
+      }
+    });
+
+    liveClientRef.current = client;
+    client.connect();
+
+    frameIntervalRef.current = setInterval(() => {
+      const frame = webcamRef.current?.getScreenshot();
+      if (frame) client.sendVideoFrame(frame);
+    }, 1000 / VIDEO_FPS);
+  }, [cameraError, stopSession, history.record]);
+
+  const toggleLiveConversation = useCallback(() => {
+    if (mode === AppMode.LIVE) {
+      stopSession();
+      setMode(AppMode.IDLE);
+      setStatusText(t('ready'));
+    } else {
+      startLiveConversation();
+    }
+  }, [mode, startLiveConversation, stopSession]);
+
+  // --- Language ---
+
+  const switchLanguage = useCallback((target: Locale = nextLocale()) => {
+    setLocale(target);
+    // t() reads the new locale immediately; recognition and prompts follow on their next use
+    setStatusText(t('languageChanged'));
+    speak(t('languageChanged'), FEEDBACK_SPEECH);
+  }, [setLocale]);
+
+  // --- Settings (touch and voice) ---
+
+  const describeSetting = (index: number): string => {
+    const item = SETTING_ITEMS[index];
+    return t('settingValue', { label: t(item.label), value: item.describe(getPreferences(), getVoicesForLocale()) });
+  };
+
+  const focusSetting = (index: number) => {
+    setSettingsIndex(index);
+    speak(describeSetting(index), FEEDBACK_SPEECH);
+  };
+
+  const adjustSetting = (index: number, direction: 1 | -1) => {
+    setSettingsIndex(index);
+    updatePreferences(SETTING_ITEMS[index].step(getPreferences(), direction, getVoicesForLocale()));
+    // Spoken with the new value (and the new rate/pitch/voice) as feedback
+    speak(describeSetting(index), FEEDBACK_SPEECH);
+  };
+
+  // Quick voice adjustments ("louder", "slower") step one setting and say the new value
+  const adjustSettingByLabel = (label: StringKey, direction: 1 | -1) => {
+    const index = SETTING_ITEMS.findIndex(item => item.label === label);
+    if (index >= 0) adjustSetting(index, direction);
+  };
+
+  const handleSettingsCommand = (command: SettingsCommand) => {
+    const count = SETTING_ITEMS.length;
+    switch (command) {
+      case 'open':
+        setShowSettings(true);
+        setSettingsIndex(0);
+        speak(`${t('settingsOpened')} ${describeSetting(0)}`, FEEDBACK_SPEECH);
+        break;
+      case 'close':
+        setShowSettings(false);
+        speak(t('settingsClosed'), FEEDBACK_SPEECH);
+        break;
+      case 'next':
+        focusSetting((settingsIndex + 1) % count);
+        break;
+      case 'previous':
+        focusSetting((settingsIndex - 1 + count) % count);
+        break;
+      case 'increase':
+        adjustSetting(settingsIndex, 1);
+        break;
+      case 'decrease':
+        adjustSetting(settingsIndex, -1);
+        break;
+      case 'reset':
+        resetPreferences();
+        speak(t('settingsReset'), FEEDBACK_SPEECH);
+        break;
+    }
+  };
+
+  // --- Guidance History ---
+
+  const handleHistoryCommand = (command: 'repeat' | 'previous' | 'clear') => {
+    if (command === 'clear') {
+      history.clear();
+      setStatusText(t('historyCleared'));
+      speak(t('historyCleared'));
+      return;
+    }
+
+    const entry = command === 'repeat' ? history.latest() : history.previous();
+    if (!entry) {
+      speak(command === 'repeat' ? t('nothingSaidYet') : t('nothingBefore'));
+      return;
+    }
+    setStatusText(entry.text);
+    speak(entry.text);
+  };
+
+  // --- Usage Budget ---
+
+  // Say once when the daily budget runs out, since answers get simpler from then on
+  useEffect(() => {
+    let exceeded = getBudgetStatus().exceeded;
+    return subscribeTelemetry(() => {
+      const now = getBudgetStatus().exceeded;
+      if (now && !exceeded) speak(t('budgetExceeded'), FEEDBACK_SPEECH);
+      exceeded = now;
+    });
+  }, []);
+
+  // --- Capture Coaching ---
+
+  const captureCoachRef = useRef<CaptureCoach | null>(null);
+
+  /**
+   * Coaches the user into a clear, well framed shot and returns it,
+   * or null if none came in time (a spoken message says so).
+   */
+  const coachCapture = async (requireText: boolean): Promise<string | null> => {
+    captureCoachRef.current?.cancel();
+    const coach = new CaptureCoach(() => webcamRef.current?.getScreenshot() ?? null, {
+      requireText,
+      onHint: issue => {
+        setStatusText(captureHint(issue));
+        speak(captureHint(issue), COACHING_SPEECH);
+      },
+    });
+    captureCoachRef.current = coach;
+
+    const frame = await coach.capture();
+    if (captureCoachRef.current === coach) captureCoachRef.current = null;
+    if (frame) {
+      playHaptic('captured');
+    } else {
+      setStatusText(t('captureTimeout'));
+      speak(t('captureTimeout'), 'high');
+    }
+    return frame;
+  };
+
+  // --- Document Reading ---
+
+  // Bumped to stop a running read-through
+  const readThroughRef = useRef(0);
+
+  const readBlock = (block: DocumentBlock | null, missing: 'docEnd' | 'docStart') => {
+    readThroughRef.current++;
+    if (!block) {
+      speak(t(missing), DOCUMENT_SPEECH);
+      return;
+    }
+    setStatusText(block.text);
+    speak(blockSpeech(block), DOCUMENT_SPEECH);
+  };
+
+  /**
+   * Reads from the saved position to the end, block by block, saving the
+   * position as it goes. Any other document command or "stop" ends it.
+   */
+  const readThrough = async () => {
+    const run = ++readThroughRef.current;
+    let block = documents.current();
+    while (block && run === readThroughRef.current) {
+      setStatusText(block.text);
+      const outcome = await speak(blockSpeech(block), DOCUMENT_SPEECH);
+      if (outcome !== 'spoken' || run !== readThroughRef.current) return;
+      block = documents.step(1);
+    }
+    if (run === readThroughRef.current) speak(t('docEnd'), DOCUMENT_SPEECH);
+  };
+
+  const continueReading = async () => {
+    if (!documents.docRef.current) {
+      const latest = await documents.resumeLatest();
+      if (!latest) {
+        speak(t('docNone'), FEEDBACK_SPEECH);
+        return;
+      }
+      const page = latest.blocks[latest.position]?.page ?? 1;
+      await speak(t('docResumed', { title: latest.title || t('docUntitled'), page }), FEEDBACK_SPEECH);
+    }
+    readThrough();
+  };
+
+  const scanDocumentPage = async () => {
+    readThroughRef.current++;
+    setStatusText(t('captureFraming'));
+    speak(t('captureFraming'), FEEDBACK_SPEECH);
+    const imageSrc = await coachCapture(true);
+    if (!imageSrc) return;
+
+    const page = (documents.docRef.current?.pageCount ?? 0) + 1;
+    setStatusText(t('docScanning', { page }));
+    speak(t('docScanning', { page }), FEEDBACK_SPEECH);
+
+    try {
+      const result = await extractDocumentPage(imageSrc, page);
+      if (result.blocks.length === 0) {
+        setStatusText(t('docPageEmpty'));
+        speak(t('docPageEmpty'), 'high');
+        return;
+      }
+      documents.addPage(result);
+      setStatusText(t('docPageAdded', { page, count: result.blocks.length }));
+      playHaptic('answerReady');
+      speak(t('docPageAdded', { page, count: result.blocks.length }), 'high');
+    } catch (error) {
+      console.error("📄 Page extraction failed:", error);
+      setStatusText(t('docScanFailed'));
+      playHaptic('error');
+      speak(t('docScanFailed'), 'high');
+    }
+  };
+
+  const handleDocumentIntent = (intent: VoiceIntent) => {
+    switch (intent) {
+      case 'scanPage':
+        scanDocumentPage();
+        break;
+      case 'newDocument':
+        readThroughRef.current++;
+        documents.startNew();
+        speak(t('docNew'), FEEDBACK_SPEECH);
+        break;
+      case 'continueReading':
+        continueReading();
+        break;
+      case 'nextBlock':
+        readBlock(documents.step(1), 'docEnd');
+        break;
+      case 'previousBlock':
+        readBlock(documents.step(-1), 'docStart');
+        break;
+      case 'nextPage':
+      case 'previousPage': {
+        const delta = intent === 'nextPage' ? 1 : -1;
+        const from = documents.current()?.page ?? 0;
+        if (documents.stepPage(delta) === null) {
+          readThroughRef.current++;
+          speak(t('docNoPage', { page: from + delta }), DOCUMENT_SPEECH);
+        } else {
+          readBlock(documents.current(), 'docEnd');
+        }
+        break;
+      }
+      case 'readTotal': {
+        readThroughRef.current++;
+        const total = documents.docRef.current ? findTotal(documents.docRef.current) : null;
+        speak(total ? t('docTotal', { text: total.text }) : t('docNoTotal'), DOCUMENT_SPEECH);
+        break;
+      }
+      case 'spell': {
+        readThroughRef.current++;
+        const block = documents.current();
+        if (block) speak(spellOut(block.text), DOCUMENT_SPEECH);
+        break;
+      }
+      case 'closeDocument':
+        readThroughRef.current++;
+        documents.close();
+        speak(t('docClosed'), FEEDBACK_SPEECH);
+        break;
+    }
+  };
+
+  // --- Money Counting ---
+
+  const countNote = async () => {
+    setStatusText(t('thinking'));
+    const imageSrc = await coachCapture(false);
+    if (!imageSrc) return;
+
+    try {
+      const note = await recognizeBanknote(imageSrc);
+      // Counting may have been stopped while the model was answering
+      if (!money.activeRef.current) return;
+
+      if (!note.denomination) {
+        setStatusText(t('moneyNoNote'));
+        speak(t('moneyNoNote'), 'high');
+        return;
+      }
+      if (note.confidence < MIN_BANKNOTE_CONFIDENCE) {
+        const unsure = t('moneyUnsure', { note: banknoteSpeech(note) });
+        setStatusText(unsure);
+        speak(unsure, 'high');
+        return;
+      }
+
+      const { tally } = money.add(note);
+      const message = t('moneyCounted', { note: banknoteSpeech(note), total: tallySpeech(tally) });
+      setStatusText(message);
+      playHaptic('answerReady');
+      history.record(AppMode.READING, message);
+      speak(message, 'high');
+    } catch (error) {
+      console.error("💵 Banknote recognition failed:", error);
+      setStatusText(t('moneyFailed'));
+      playHaptic('error');
+      speak(t('moneyFailed'), 'high');
+    }
+  };
+
+  const handleMoneyIntent = (intent: VoiceIntent) => {
+    switch (intent) {
+      case 'countMoney':
+        readThroughRef.current++;
+        money.start();
+        setStatusText(t('moneyStart'));
+        speak(t('moneyStart'), FEEDBACK_SPEECH);
+        break;
+      case 'countNote':
+        countNote();
+        break;
+      case 'moneyTotal': {
+        const total = tallySpeech(money.countRef.current.tally);
+        speak(total ? t('moneyTotal', { total }) : t('moneyEmpty'), FEEDBACK_SPEECH);
+        break;
+      }
+      case 'resetMoney':
+        money.reset();
+        speak(t('moneyReset'), FEEDBACK_SPEECH);
+        break;
+      case 'stopCounting': {
+        captureCoachRef.current?.cancel();
+        const total = tallySpeech(money.stop().tally);
+        speak(total ? t('moneyDone', { total }) : t('moneyStopped'), FEEDBACK_SPEECH);
+        break;
+      }
+    }
+  };
+
+  // --- Walking Directions ---
+
+  const userLocationRef = useRef<GeoLocation | null>(null);
+
+  /**
+   * Plans a route from where the user is and starts following it,
+   * with the camera hazard loop running alongside.
+   */
+  const followRoute = async (place: Place, from: GeoLocation) => {
+    const generation = ++routeGenerationRef.current;
+    try {
+      const route = await getRoutingBackend().route(from, place);
+      if (generation !== routeGenerationRef.current) return;
+
+      const tracker = new RouteTracker(route);
+      routeRef.current = tracker;
+      setRouteInfo({ place: place.name, remainingMeters: route.distanceMeters });
+
+      // Hazard detection runs the whole way; start it first since it clears pending speech
+      if (!isNavigatingRef.current) await startLiveNavigation();
+      const summary = tracker.startSpeech();
+      setStatusText(summary);
+      history.record(AppMode.NAVIGATING, summary);
+      speak(summary, { ...ROUTE_SPEECH, priority: 'high' });
+    } catch (error) {
+      console.error("🗺️ Routing failed:", error);
+      if (generation !== routeGenerationRef.current) return;
+      endRoute();
+      playHaptic('error');
+      speak(t('routeFailed'), 'high');
+    }
+  };
+
+  const startRoute = async (query: string) => {
+    const from = userLocationRef.current;
+    if (!from) {
+      speak(t('routeNoLocation'), FEEDBACK_SPEECH);
+      return;
+    }
+
+    setStatusText(t('routeSearching', { place: query }));
+    speak(t('routeSearching', { place: query }), FEEDBACK_SPEECH);
+    const generation = ++routeGenerationRef.current;
+    try {
+      const place = await getRoutingBackend().geocode(query, from);
+      if (generation !== routeGenerationRef.current) return;
+      if (!place) {
+        setStatusText(t('routeNotFound', { place: query }));
+        speak(t('routeNotFound', { place: query }), 'high');
+        return;
+      }
+      await followRoute(place, userLocationRef.current || from);
+    } catch (error) {
+      console.error("🗺️ Geocoding failed:", error);
+      playHaptic('error');
+      speak(t('routeFailed'), 'high');
+    }
+  };
+
+  // Each GPS fix moves the route along
+  useEffect(() => {
+    userLocationRef.current = userLocation;
+    const tracker = routeRef.current;
+    if (!tracker || !userLocation) return;
+
+    const event = tracker.update(userLocation);
+    setRouteInfo({ place: tracker.route.destination.name, remainingMeters: tracker.remainingMeters(userLocation) });
+    if (!event) return;
+    console.log("🗺️ Route event:", event.kind, event.step);
+
+    if (event.kind === 'offRoute') {
+      speak(event.text, ROUTE_SPEECH);
+      followRoute(tracker.route.destination, userLocation);
+      return;
+    }
+
+    setStatusText(event.text);
+    history.record(AppMode.NAVIGATING, event.text);
+    if (event.kind === 'now' || event.kind === 'arrived') playHaptic('answerReady');
+    speak(event.text, ROUTE_SPEECH).then(outcome => {
+      if (outcome !== 'spoken') tracker.unheard(event);
+    });
+    if (event.kind === 'arrived') endRoute();
+  }, [userLocation]);
+
+  // --- Saved Places ---
+
+  const geofenceRef = useRef(new PlaceGeofence());
+  // A place named only in part, read back and waiting for a yes before it is deleted
+  const placeToDeleteRef = useRef<SavedPlace | null>(null);
+
+  // Announce saved places as the user comes near them
+  useEffect(() => {
+    if (!userLocation) return;
+    const entered = geofenceRef.current.update(userLocation, places.placesRef.current, prefs.placeRadiusMeters);
+    for (const { place, distanceMeters } of entered) {
+      const message = t('placeNearby', { label: place.label, distance: describeRouteDistance(distanceMeters) });
+      console.log("📍 Near saved place:", place.label, Math.round(distanceMeters));
+      playHaptic('listening');
+      history.record(AppMode.NAVIGATING, message);
+      speak(message, PLACE_SPEECH);
+    }
+  }, [userLocation]);
+
+  const handlePlaceIntent = (intent: VoiceIntent, captures: string[] = []) => {
+    const saved = places.placesRef.current;
+    switch (intent) {
+      case 'savePlace': {
+        const label = cleanPlaceLabel(captures[0] || '');
+        const location = userLocationRef.current;
+        if (!label) break;
+        if (!location) {
+          speak(t('routeNoLocation'), FEEDBACK_SPEECH);
+          break;
+        }
+        if (saved.some(p => cleanPlaceLabel(p.label) === label)) {
+          speak(t('placeExists', { label }), FEEDBACK_SPEECH);
+          break;
+        }
+        // A reference photo if the camera is on; the place is saved either way
+        const photo = cameraError ? null : webcamRef.current?.getScreenshot();
+        const place = places.add(label, location, photo || undefined);
+        geofenceRef.current.markInside(place.id);
+        playHaptic('answerReady');
+        speak(t(photo ? 'placeSavedWithPhoto' : 'placeSaved', { label }), FEEDBACK_SPEECH);
+        break;
+      }
+      case 'listPlaces': {
+        if (saved.length === 0) {
+          speak(t('placeListEmpty'), FEEDBACK_SPEECH);
+          break;
+        }
+        const labels = saved.map(p => p.label).join(', ');
+        let message = saved.length === 1 ? t('placeListOne', { labels }) : t('placeList', { count: saved.length, labels });
+        const location = userLocationRef.current;
+        if (location && saved.length > 1) {
+          const nearest = [...saved].sort((a, b) => distanceBetween(location, a.location) - distanceBetween(location, b.location))[0];
+          message += ' ' + t('placeListNearest', { label: nearest.label, distance: describeRouteDistance(distanceBetween(location, nearest.location)) });
+        }
+        setStatusText(message);
+        speak(message, FEEDBACK_SPEECH);
+        break;
+      }
+      case 'renamePlace': {
+        const [from = '', to = ''] = captures;
+        const place = findPlace(saved, from);
+        const label = cleanPlaceLabel(to);
+        if (!place) {
+          speak(t('placeNotFound', { label: cleanPlaceLabel(from) }), FEEDBACK_SPEECH);
+        } else if (label) {
+          places.rename(place, label);
+          speak(t('placeRenamed', { from: place.label, to: label }), FEEDBACK_SPEECH);
+        }
+        break;
+      }
+      case 'deletePlace': {
+        const label = captures[0] || '';
+        const place = findPlace(saved, label, { exact: true });
+        if (place) {
+          places.remove(place);
+          speak(t('placeDeleted', { label: place.label }), FEEDBACK_SPEECH);
+          break;
+        }
+        // "Forget home" must not silently delete "grandma's home"
+        const partial = findPlace(saved, label);
+        if (!partial) {
+          speak(t('placeNotFound', { label: cleanPlaceLabel(label) }), FEEDBACK_SPEECH);
+          break;
+        }
+        placeToDeleteRef.current = partial;
+        speak(t('placeDeleteConfirm', { label: partial.label }), FEEDBACK_SPEECH).then(outcome => {
+          if (outcome === 'spoken' && placeToDeleteRef.current === partial) startListening();
+        });
+        break;
+      }
+      case 'confirmDeletePlace':
+      case 'keepPlace': {
+        const place = placeToDeleteRef.current;
+        placeToDeleteRef.current = null;
+        if (!place) break;
+        if (intent === 'confirmDeletePlace') {
+          places.remove(place);
+          speak(t('placeDeleted', { label: place.label }), FEEDBACK_SPEECH);
+        } else {
+          speak(t('placeKept', { label: place.label }), FEEDBACK_SPEECH);
+        }
+        break;
+      }
+    }
+  };
+
+  // --- Sighted Helper Call ---
+
+  const [helperCall, setHelperCall] = useState<{ status: HelperCallStatus; code: string | null; knocking: string | null } | null>(null);
+
+  const startHelperCall = async () => {
+    if (helperCallRef.current) {
+      const code = helperCallRef.current.callCode;
+      if (code) speak(t('helperCallWaiting', { digits: code.split('').join(' ') }), FEEDBACK_SPEECH);
+      return;
+    }
+
+    // The Live conversation owns the mic
+    if (liveClientRef.current) {
+      stopSession();
+      setMode(AppMode.IDLE);
+    }
+
+    let wasConnected = false;
+    let previous: HelperCallStatus | null = null;
+    const call = new HelperCall(() => webcamRef.current?.stream ?? null, {
+      onStatusChange: (status) => {
+        if (helperCallRef.current !== call) return;
+        setHelperCall(current => ({ status, code: call.callCode, knocking: status === 'confirming' ? current?.knocking ?? null : null }));
+        const wasConfirming = previous === 'confirming';
+        previous = status;
+
+        let message = '';
+        switch (status) {
+          case 'starting':
+            message = t('helperCallStarting');
+            break;
+          case 'waiting':
+            message = wasConfirming
+              ? t('helperCallDeclined')
+              : wasConnected
+                ? t('helperCallLeft')
+                : t('helperCallWaiting', { digits: (call.callCode || '').split('').join(' ') });
+            break;
+          case 'connected':
+            wasConnected = true;
+            message = t('helperCallConnected');
+            playHaptic('answerReady');
+            break;
+          case 'failed':
+            helperCallRef.current = null;
+            setHelperCall(null);
+            call.end();
+            message = t('helperCallFailed');
+            playHaptic('error');
+            break;
+          case 'ended':
+            helperCallRef.current = null;
+            setHelperCall(null);
+            message = t(isNavigatingRef.current ? 'helperCallEndedNav' : 'helperCallEnded');
+            break;
+        }
+        if (!message) return;
+        setStatusText(message);
+        speak(message, FEEDBACK_SPEECH);
+      },
+      // Nothing is sent to the helper until the user has heard who it is and said yes
+      onKnock: (name) => {
+        if (helperCallRef.current !== call) return;
+        setHelperCall(current => current && { ...current, knocking: name });
+        const message = t('helperCallKnock', { name });
+        setStatusText(message);
+        playHaptic('listening');
+        speak(message, HELPER_SPEECH).then(outcome => {
+          if (outcome === 'spoken' && call.callStatus === 'confirming') startListening();
+        });
+      },
+      onMessage: (text) => {
+        console.log("📞 Helper says:", text);
+        setStatusText(text);
+        history.record(AppMode.LIVE, text);
+        playHaptic('listening');
+        speak(text, HELPER_SPEECH);
+      },
+    });
+
+    helperCallRef.current = call;
+    // Guidance already queued is about to be out of date
+    getSpeechScheduler().cancelChannel('navigation');
+    try {
+      await call.start();
+    } catch (e) {
+      console.error("📞 Could not start helper call:", e);
+    }
+  };
+
+  // The link carries the helper's token, so it is shared rather than spoken
+  const shareHelperLink = async () => {
+    const link = helperCallRef.current?.helperLink;
+    if (!link) return;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: document.title, text: t('shareHelperLink'), url: link });
+        return;
+      }
+      await navigator.clipboard.writeText(link);
+      setStatusText(t('helperLinkCopied'));
+      speak(t('helperLinkCopied'), FEEDBACK_SPEECH);
+    } catch (e) {
+      // Closing the share sheet is not an error
+      if (e instanceof DOMException && e.name === 'AbortError') return;
+      console.warn("📞 Could not share the call link:", e);
+      speak(t('helperLinkFailed'), FEEDBACK_SPEECH);
+    }
+  };
+
+  const endHelperCall = () => {
+    if (helperCallRef.current) {
+      helperCallRef.current.end();
+    } else {
+      speak(t('helperCallNone'), FEEDBACK_SPEECH);
+    }
+  };
+
+  useEffect(() => () => helperCallRef.current?.end(), []);
+
+  // --- Emergency SOS ---
+
+  const [sos, setSos] = useState<{ state: SosState; trigger: SosTrigger; seconds: number }>({ state: 'idle', trigger: 'voice', seconds: 0 });
+  const sosRef = useRef<EmergencySos | null>(null);
+  const fallDetectorRef = useRef<FallDetector | null>(null);
+  const longPressRef = useRef<{ timer: ReturnType<typeof setTimeout> | null; fired: boolean }>({ timer: null, fired: false });
+
+  const getSos = (): EmergencySos => {
+    if (!sosRef.current) {
+      sosRef.current = new EmergencySos({
+        getLocation: () => userLocationRef.current,
+        getSnapshot: () => webcamRef.current?.getScreenshot() ?? null,
+        getLastGuidance: () => history.latest()?.text,
+        onStateChange: (state, trigger, seconds) => setSos({ state, trigger, seconds }),
+        onCountdown: (seconds) => {
+          setSos(s => ({ ...s, seconds }));
+          if (seconds <= 3 || seconds % 5 === 0) speak(t('sosTick', { seconds }), SOS_TICK_SPEECH);
+        },
+        onSent: (event, ok) => {
+          if (event === 'alert') {
+            const message = t(ok ? 'sosSent' : isSosNotifierConfigured() ? 'sosSendFailed' : 'sosNotConfigured');
+            setStatusText(message);
+            playHaptic(ok ? 'answerReady' : 'error');
+            speak(message, SOS_SPEECH);
+          }
+        },
+      });
+    }
+    return sosRef.current;
+  };
+
+  // Check at startup so a missing SOS setup shows in the console, not first in an emergency
+  useEffect(() => {
+    isSosNotifierConfigured();
+    return () => sosRef.current?.dispose();
+  }, []);
+
+  const triggerSos = (trigger: SosTrigger) => {
+    console.log("🆘 SOS requested:", trigger);
+    getSos().start(trigger);
+  };
+
+  const cancelSos = () => {
+    const previous = sosRef.current?.cancel() ?? 'idle';
+    if (previous === 'idle') return;
+    const message = t(previous === 'active' ? 'sosResolved' : 'sosCancelled');
+    setStatusText(message);
+    speak(message, SOS_SPEECH);
+  };
+
+  // Warn before alerting anyone, then listen for "cancel" or "I'm okay"
+  useEffect(() => {
+    if (sos.state !== 'countdown') return;
+    const message = t(sos.trigger === 'fall' ? 'sosFallCountdown' : 'sosCountdown', { seconds: sos.seconds });
+    setStatusText(message);
+    playHaptic('sos');
+    speak(message, SOS_SPEECH).then(outcome => {
+      if (outcome === 'spoken' && sosRef.current?.current !== 'idle') startListening();
+    });
+  }, [sos.state]);
+
+  // Fall detection runs whenever it is enabled, not only while navigating
+  useEffect(() => {
+    if (!prefs.fallDetection) return;
+    const detector = new FallDetector(() => triggerSos('fall'));
+    fallDetectorRef.current = detector;
+    detector.start();
+    return () => {
+      detector.stop();
+      fallDetectorRef.current = null;
+    };
+  }, [prefs.fallDetection]);
+
+  const handlePointerDown = () => {
+    // iOS only grants motion access from a gesture, so the first touch asks for it
+    fallDetectorRef.current?.start();
+
+    const press = longPressRef.current;
+    if (press.timer) clearTimeout(press.timer);
+    press.fired = false;
+    press.timer = setTimeout(() => {
+      press.timer = null;
+      press.fired = true;
+      triggerSos('gesture');
+    }, SOS_LONG_PRESS_MS);
+  };
+
+  const handlePointerUp = () => {
+    const press = longPressRef.current;
+    if (press.timer) clearTimeout(press.timer);
+    press.timer = null;
+  };
+
+  // The release that ends a long press shouldn't also press the button under the finger
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (!longPressRef.current.fired) return;
+    longPressRef.current.fired = false;
+    e.stopPropagation();
+    e.preventDefault();
+  };
+
+  // --- Local Voice Intents (no network) ---
+
+  const handleIntent = ({ intent, value, captures }: IntentMatch) => {
+    console.log("⚡ Local intent:", intent, value ?? '');
+    switch (intent) {
+      case 'startNavigation':
+        if (!isNavigatingRef.current) startLiveNavigation();
+        break;
+      case 'stopNavigation':
+        captureCoachRef.current?.cancel();
+        if (isNavigatingRef.current) {
+          toggleNavigation();
+        } else {
+          // Nothing to stop but the voice itself
+          stopBrowserTTS();
+          stopHaptics();
+        }
+        break;
+      case 'repeat':
+        // While reading a document, "repeat" means the current section
+        if (documents.current()) {
+          readBlock(documents.current(), 'docEnd');
+        } else {
+          handleHistoryCommand('repeat');
+        }
+        break;
+      case 'previous':
+        handleHistoryCommand('previous');
+        break;
+      case 'clearHistory':
+        handleHistoryCommand('clear');
+        break;
+      case 'louder':
+        adjustSettingByLabel('settingVolume', 1);
+        break;
+      case 'quieter':
+        adjustSettingByLabel('settingVolume', -1);
+        break;
+      case 'faster':
+        adjustSettingByLabel('settingSpeechRate', 1);
+        break;
+      case 'slower':
+        adjustSettingByLabel('settingSpeechRate', -1);
+        break;
+      case 'switchLanguage': {
+        const target = (value as Locale) || nextLocale();
+        if (target !== getLocale()) {
+          switchLanguage(target);
+        } else {
+          speak(t('languageChanged'), FEEDBACK_SPEECH);
+        }
+        break;
+      }
+      case 'help':
+        setStatusText(t('voiceHelp'));
+        speak(t('voiceHelp'), FEEDBACK_SPEECH);
+        break;
+      case 'routeTo':
+        if (value) startRoute(value);
+        break;
+      case 'routeStatus': {
+        const location = userLocationRef.current;
+        const tracker = routeRef.current;
+        speak(tracker && location ? tracker.statusSpeech(location) : t('routeNone'), FEEDBACK_SPEECH);
+        break;
+      }
+      case 'cancelRoute':
+        endRoute();
+        speak(t('routeCancelled'), FEEDBACK_SPEECH);
+        break;
+      case 'savePlace':
+      case 'listPlaces':
+      case 'renamePlace':
+      case 'deletePlace':
+      case 'confirmDeletePlace':
+      case 'keepPlace':
+        handlePlaceIntent(intent, captures);
+        break;
+      case 'callHelper':
+        startHelperCall();
+        break;
+      case 'endCall':
+        endHelperCall();
+        break;
+      case 'admitHelper':
+        helperCallRef.current?.admit();
+        break;
+      case 'declineHelper':
+        helperCallRef.current?.decline();
+        break;
+      case 'sos':
+        triggerSos('voice');
+        break;
+      case 'cancelSos':
+        cancelSos();
+        break;
+      case 'countMoney':
+      case 'countNote':
+      case 'moneyTotal':
+      case 'resetMoney':
+      case 'stopCounting':
+        handleMoneyIntent(intent);
+        break;
+      default:
+        handleDocumentIntent(intent);
+    }
+  };
 
   // --- Smart Assistant (Voice Command) ---
 
   const handleVoiceCommand = async (command: string) => {
     console.log("🎤 Voice command received:", command);
-    if (!command || !webcamRef.current) {
-      console.warn("⚠️ No command or webcam not ready");
+    if (!command) {
+      console.warn("⚠️ No command");
       return;
     }
 
-    try {
-      setMode(AppMode.READING);
-      setStatusText("Thinking...");
+    // Settings commands are handled locally; only "settings"/"reset settings" work outside the screen
+    const settingsCommand = parseSettingsCommand(command);
+    if (settingsCommand && (showSettings || settingsCommand === 'open' || settingsCommand === 'reset')) {
+      handleSettingsCommand(settingsCommand);
+      return;
+    }
 
-      const imageSrc = webcamRef.current.getScreenshot();
-      if (!imageSrc) throw new Error("Could not capture image");
-      console.log("📸 Image captured, length:", imageSrc.length);
+    // Control commands run instantly on-device; only free-form questions go to the model
+    const contexts: IntentContext[] = [];
+    const sosPending = !!sosRef.current && sosRef.current.current !== 'idle';
+    if (sosPending) contexts.push('sos');
+    if (helperCallRef.current?.callStatus === 'confirming') contexts.push('helperKnock');
+    if (placeToDeleteRef.current) contexts.push('placeDelete');
+    if (money.activeRef.current) contexts.push('money');
+    if (documents.docRef.current) contexts.push('document');
+    const intent = parseIntent(command, contexts);
+    // The question about deleting a place only covers the very next command
+    if (intent?.intent !== 'confirmDeletePlace' && intent?.intent !== 'keepPlace') placeToDeleteRef.current = null;
+    if (intent) {
+      handleIntent(intent);
+      return;
+    }
+    // During an emergency, no questions go to the model (it may only have heard the countdown)
+    if (sosPending) return;
+
+    if (!webcamRef.current) {
+      console.warn("⚠️ Webcam not ready");
+      return;
+    }
 
-      // 1. Router (Flash) - Quyết định model nào
+    // Questions asked hands-free while walking keep navigation running
+    const keepNavigating = isNavigatingRef.current;
+
+    try {
+      if (!keepNavigating) setMode(AppMode.READING);
+      setStatusText(t('thinking'));
+
+      // 1. Routing policy - which model answers, and why
       console.log("🔀 Selecting best model for query...");
-      const selectedModel = await selectBestModelForQuery(command);
-      console.log("✅ Selected model:", selectedModel);
+      const route = await routeQuery(command);
+      console.log(`✅ Selected ${route.model} (${route.policy}: ${route.reason})`);
+      setModelRoute(route);
 
-      // Check if using Gemini 3 (complex model)
-      const isGemini3 = selectedModel.includes("pro") || selectedModel.includes("3");
-      setIsProMode(isGemini3);
-      setStatusText(isGemini3 ? "Gemini 3 Pro..." : "Flash Speed...");
+      // Pro calls are slow and costly: wait for a sharp, well exposed frame (and framed text when reading)
+      const isPro = route.tier === 'pro';
+      const imageSrc = isPro
+        ? await coachCapture(isReadingQuery(command))
+        : webcamRef.current?.getScreenshot();
+      if (!imageSrc) {
+        if (isPro) {
+          if (!keepNavigating) setMode(m => m === AppMode.READING ? AppMode.IDLE : m);
+          return;
+        }
+        throw new Error("Could not capture image");
+      }
+      console.log("📸 Image captured, length:", imageSrc.length);
+      setStatusText(t('usingModel', { model: getModelInfo(route.model).label }));
 
-      // 2. Analysis (Flash/Gemini 3) with real location
-      console.log("🧠 Analyzing with", selectedModel);
+      // 2. Analysis with the routed tier and real location
+      console.log("🧠 Analyzing with", route.model);
       console.log("📍 Using location:", userLocation || "Not available");
       const result = await analyzeSmartAssistant(
         imageSrc,
         command,
-        selectedModel,
+        route.tier,
         userLocation || undefined
       );
       console.log("💬 Result:", result);
 
-      // 3. Response
+      // 3. Response (answers are always spoken, haptics only signal they are ready)
       setStatusText(result);
-      speak(result);
+      playHaptic('answerReady');
+      history.record(AppMode.READING, result);
+      const outcome = await speak(result);
+      console.log("🔈 Answer speech:", outcome);
 
-      setTimeout(() => {
-        setMode(AppMode.IDLE);
-        setStatusText("Ready");
-      }, 4000 + (result.length * 50));
+      // Back to idle once the answer has finished, unless something else took over meanwhile
+      if (!keepNavigating) {
+        setMode(m => m === AppMode.READING ? AppMode.IDLE : m);
+        setStatusText(t('ready'));
+      }
 
     } catch (error) {
       console.error("❌ Assistant Error:", error);
-      setStatusText("Failed. Try again.");
-      speak("I couldn't understand that.");
-      setMode(AppMode.IDLE);
+      setStatusText(t('failedTryAgain'));
+      playHaptic('error');
+      speak(t('didNotUnderstand'));
+      if (!keepNavigating) setMode(AppMode.IDLE);
     }
   };
 
-  const { isListening, startListening, stopListening } = useSpeechRecognition(handleVoiceCommand);
+  const {
+    isListening, isAlwaysListening, startListening, stopListening, startAlwaysListening, stopAlwaysListening,
+  } = useSpeechRecognition(handleVoiceCommand, {
+    wakePhrase: prefs.wakePhrase,
+    onWake: () => {
+      // No spoken reply here: the recognizer would take it for the command
+      playHaptic('listening');
+      setStatusText(t('wakeHeard'));
+    },
+  });
+
+  // Always-listening follows the wake phrase setting; the Live conversation owns the mic
+  useEffect(() => {
+    if (prefs.wakePhrase && mode !== AppMode.LIVE) {
+      startAlwaysListening();
+    } else {
+      stopAlwaysListening();
+    }
+  }, [prefs.wakePhrase, mode, startAlwaysListening, stopAlwaysListening]);
 
   const startAssistant = () => {
+    // Hands-free mode already has the mic: just take the next utterance, navigation keeps going
+    if (isAlwaysListening) {
+      startListening();
+      playHaptic('listening');
+      setStatusText(t('listening'));
+      return;
+    }
+
     // Stop navigation first
     isNavigatingRef.current = false;
     stopSession();
     stopBrowserTTS();
 
     setMode(AppMode.IDLE);
-    setStatusText("Wait...");
+    setStatusText(t('wait'));
 
     // Increased delay to 1000ms to allow mic stream to fully release
     setTimeout(() => {
       startListening();
-      setStatusText("Listening...");
+      playHaptic('listening');
+      setStatusText(t('listening'));
     }, 1000);
   };
 
   if (!mounted) return null;
 
   return (
-    <div className="relative w-full h-[100dvh] bg-black overflow-hidden select-none touch-none">
+    <div
+      className="relative w-full h-[100dvh] bg-black overflow-hidden select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClickCapture={handleClickCapture}
+    >
       {!cameraError && (
         <Webcam
           ref={webcamRef as any}
@@ -299,8 +1460,8 @@ const App: React.FC = () => {
       {cameraError && (
         <div className="absolute inset-0 flex items-center justify-center z-0 bg-gray-900">
           <div className="text-center p-6">
-            <p className="text-red-500 font-bold text-xl mb-2">Camera Disabled</p>
-            <p className="text-gray-400">Please allow camera access.</p>
+            <p className="text-red-500 font-bold text-xl mb-2">{t('cameraDisabled')}</p>
+            <p className="text-gray-400">{t('allowCamera')}</p>
           </div>
         </div>
       )}
@@ -311,9 +1472,64 @@ const App: React.FC = () => {
         isListening={isListening}
         onMicClick={startAssistant}
         onToggleNav={toggleNavigation}
+        onToggleLive={toggleLiveConversation}
         onStop={() => { stopSession(); stopListening(); }}
-        isProMode={isProMode}
+        onOpenHistory={() => setShowHistory(true)}
+        onOpenUsage={() => setShowUsage(true)}
+        onSwitchLanguage={() => switchLanguage()}
+        onOpenSettings={() => handleSettingsCommand('open')}
+        locale={locale}
+        modelRoute={modelRoute}
+        transcript={transcript}
+        liveStatus={liveStatus}
+        isOffline={isOffline}
+        routeProgress={routeInfo
+          ? t('routeProgress', { place: routeInfo.place, distance: describeRouteDistance(routeInfo.remainingMeters) })
+          : undefined}
+        documentProgress={documents.doc && documents.doc.blocks.length > 0
+          ? t('docProgress', {
+            page: documents.doc.blocks[documents.doc.position]?.page ?? 1,
+            pages: documents.doc.pageCount,
+            index: documents.doc.position + 1,
+            count: documents.doc.blocks.length,
+          })
+          : undefined}
+        moneyProgress={money.active
+          ? t('moneyProgress', { total: tallySpeech(money.count.tally) || '0', count: money.count.notes })
+          : undefined}
+        helperCall={helperCall
+          ? (helperCall.status === 'connected' ? t('helperCallLive')
+            : helperCall.knocking ? t('helperCallKnocking', { name: helperCall.knocking })
+              : helperCall.code ? t('helperCallCode', { code: helperCall.code }) : t('helperCallStarting'))
+          : undefined}
+        onShareHelperLink={shareHelperLink}
+        wakePhrase={isAlwaysListening ? prefs.wakePhrase : null}
       />
+
+      {showSettings && (
+        <SettingsPanel
+          prefs={prefs}
+          voices={getVoicesForLocale(locale)}
+          focusedIndex={settingsIndex}
+          onFocus={focusSetting}
+          onAdjust={adjustSetting}
+          onReset={() => handleSettingsCommand('reset')}
+          onClose={() => handleSettingsCommand('close')}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          entries={history.entries}
+          onReplay={(entry) => speak(entry.text, 'high')}
+          onClear={() => history.clear()}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
+
+      <SosOverlay state={sos.state} secondsLeft={sos.seconds} onCancel={cancelSos} />
     </div>
   );
 };
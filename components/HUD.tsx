@@ -1,6 +1,10 @@
 import React from 'react';
-import { Mic, Play, Square } from 'lucide-react';
+import { Activity, Banknote, Cpu, Ear, FileText, Navigation, History, MessageCircle, Mic, Play, Settings, Square, Video, WifiOff } from 'lucide-react';
 import { AppMode } from '../types';
+import { LiveStatus } from '../services/liveClient';
+import { getLocaleInfo, Locale, t } from '../services/i18n';
+import { RoutingDecision } from '../services/modelRouter';
+import { CostTier, getModelInfo } from '../services/modelRegistry';
 
 interface HUDProps {
   mode: AppMode;
@@ -8,16 +12,171 @@ interface HUDProps {
   isListening: boolean;
   onMicClick: () => void; // Triggers Voice/Analysis
   onToggleNav: () => void; // Triggers Live Navigation
+  onToggleLive: () => void; // Triggers Live Conversation
   onStop: () => void;     // Generic Stop
-  isProMode?: boolean; 
+  onOpenHistory: () => void;
+  onOpenUsage: () => void;
+  onSwitchLanguage: () => void;
+  onOpenSettings: () => void;
+  locale: Locale;
+  modelRoute?: RoutingDecision | null;   // Model answering the current question
+  transcript?: { user: string; model: string };
+  liveStatus?: LiveStatus;
+  isOffline?: boolean;        // Navigation is running on the on-device detector
+  routeProgress?: string;     // Destination and remaining distance while following a route
+  documentProgress?: string;  // Reading position while a document is open
+  moneyProgress?: string;     // Running total while counting money
+  helperCall?: string;        // Call code or status while a sighted helper call is on
+  onShareHelperLink?: () => void;
+  wakePhrase?: string | null; // Set while always-listening for the wake phrase
 }
 
-export const HUD: React.FC<HUDProps> = ({ mode, lastMessage, isListening, onMicClick, onToggleNav, onStop, isProMode }) => {
+const COST_TIER_STYLE: Record<CostTier, string> = {
+  low: 'border-cyan-500 bg-cyan-500/20 text-cyan-300',
+  medium: 'border-indigo-500 bg-indigo-500/20 text-indigo-300',
+  high: 'border-fuchsia-500 bg-fuchsia-500/20 text-fuchsia-300',
+};
+
+const LIVE_STATUS_STYLE: Record<LiveStatus, string> = {
+  connecting: 'bg-slate-700 text-slate-200',
+  connected: 'bg-green-500/20 text-green-400 border-green-500',
+  reconnecting: 'bg-amber-500/20 text-amber-400 border-amber-500 animate-pulse',
+  degraded: 'bg-amber-500/20 text-amber-400 border-amber-500',
+  failed: 'bg-red-500/20 text-red-400 border-red-500',
+  disconnected: 'bg-slate-700 text-slate-400',
+};
+
+export const HUD: React.FC<HUDProps> = ({ mode, lastMessage, isListening, onMicClick, onToggleNav, onToggleLive, onStop, onOpenHistory, onOpenUsage, onSwitchLanguage, onOpenSettings, locale, modelRoute, transcript, liveStatus, isOffline, routeProgress, documentProgress, moneyProgress, helperCall, onShareHelperLink, wakePhrase }) => {
   const isNavigating = mode === AppMode.NAVIGATING;
   const isReading = mode === AppMode.READING; // Interaction Mode (Analysis)
+  const isLive = mode === AppMode.LIVE;       // Conversation Mode
   
   return (
     <div className="absolute inset-0 z-10 flex flex-col justify-end pointer-events-none p-6">
+      {/* Top Left: Status pills */}
+      <div className="absolute top-6 left-6 flex flex-col items-start gap-2">
+        {/* Live connection status */}
+        {isLive && liveStatus && (
+          <div
+            role="status"
+            className={`px-3 py-1 rounded-full border text-xs font-bold tracking-widest uppercase ${LIVE_STATUS_STYLE[liveStatus]}`}
+          >
+            {liveStatus}
+          </div>
+        )}
+
+        {/* Model answering the question, and why it was picked */}
+        {isReading && modelRoute && (
+          <div
+            role="status"
+            title={`${modelRoute.policy}: ${modelRoute.reason}`}
+            className={`px-3 py-1 rounded-full border text-xs font-bold flex items-center gap-2 ${COST_TIER_STYLE[getModelInfo(modelRoute.model).costTier]}`}
+          >
+            <Cpu size={14} />
+            {getModelInfo(modelRoute.model).label}
+          </div>
+        )}
+
+        {/* Offline navigation */}
+        {isNavigating && isOffline && (
+          <div
+            role="status"
+            className="px-3 py-1 rounded-full border border-red-500 bg-red-500/20 text-red-400 text-xs font-bold tracking-widest uppercase flex items-center gap-2"
+          >
+            <WifiOff size={14} />
+            {t('offlineBadge')}
+          </div>
+        )}
+
+        {/* Sighted helper call */}
+        {helperCall && (
+          <button
+            onClick={onShareHelperLink}
+            aria-label={`${helperCall}. ${t('shareHelperLink')}`}
+            className="px-3 py-1 rounded-full border border-amber-500 bg-amber-500/20 text-amber-300 text-xs font-bold flex items-center gap-2"
+          >
+            <Video size={14} />
+            {helperCall}
+          </button>
+        )}
+
+        {/* Walking directions */}
+        {routeProgress && (
+          <div
+            role="status"
+            className="px-3 py-1 rounded-full border border-blue-500 bg-blue-500/20 text-blue-300 text-xs font-bold flex items-center gap-2"
+          >
+            <Navigation size={14} />
+            {routeProgress}
+          </div>
+        )}
+
+        {/* Open document */}
+        {documentProgress && (
+          <div
+            role="status"
+            className="px-3 py-1 rounded-full border border-cyan-500 bg-cyan-500/20 text-cyan-300 text-xs font-bold flex items-center gap-2"
+          >
+            <FileText size={14} />
+            {documentProgress}
+          </div>
+        )}
+
+        {/* Money counting */}
+        {moneyProgress && (
+          <div
+            role="status"
+            className="px-3 py-1 rounded-full border border-emerald-500 bg-emerald-500/20 text-emerald-300 text-xs font-bold flex items-center gap-2"
+          >
+            <Banknote size={14} />
+            {moneyProgress}
+          </div>
+        )}
+
+        {/* Always-listening indicator */}
+        {!isLive && wakePhrase && (
+          <div
+            role="status"
+            className="px-3 py-1 rounded-full border border-purple-500 bg-purple-500/20 text-purple-300 text-xs font-bold flex items-center gap-2"
+          >
+            <Ear size={14} />
+            {t('wakeListening', { phrase: wakePhrase })}
+          </div>
+        )}
+      </div>
+
+      {/* Top Right: Language, Settings, History & Usage */}
+      <div className="absolute top-6 right-6 pointer-events-auto flex items-center gap-3">
+        <button
+          onClick={onSwitchLanguage}
+          aria-label={`Language: ${getLocaleInfo(locale).language}`}
+          className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800/80 border border-slate-600 text-cyan-400 text-sm font-bold hover:text-white"
+        >
+          {getLocaleInfo(locale).label}
+        </button>
+        <button
+          onClick={onOpenSettings}
+          aria-label={t('settings')}
+          className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800/80 border border-slate-600 text-cyan-400 hover:text-white"
+        >
+          <Settings size={22} />
+        </button>
+        <button
+          onClick={onOpenHistory}
+          aria-label={t('history')}
+          className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800/80 border border-slate-600 text-cyan-400 hover:text-white"
+        >
+          <History size={22} />
+        </button>
+        <button
+          onClick={onOpenUsage}
+          aria-label={t('usage')}
+          className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800/80 border border-slate-600 text-cyan-400 hover:text-white"
+        >
+          <Activity size={22} />
+        </button>
+      </div>
+
       {/* Center: Reticle */}
       <div className={`absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-72 h-72 transition-all duration-500 ${isListening || isNavigating ? 'scale-100 opacity-80' : 'scale-90 opacity-30'}`}>
         <div className={`w-full h-full border border-white/20 rounded-lg relative ${isNavigating ? 'border-green-500/30' : ''}`}>
@@ -40,9 +199,16 @@ export const HUD: React.FC<HUDProps> = ({ mode, lastMessage, isListening, onMicC
         
         {/* Thought Bubble / Status Text */}
         <div className="w-full min-h-[80px] backdrop-blur-xl bg-black/70 border border-slate-700 rounded-2xl p-4 shadow-2xl transition-all text-center flex items-center justify-center">
-          <p className="text-lg font-medium text-slate-100 leading-relaxed">
-            {lastMessage}
-          </p>
+          {isLive && transcript && (transcript.user || transcript.model) ? (
+            <div className="w-full text-left flex flex-col gap-2" aria-live="polite">
+              {transcript.user && <p className="text-sm text-slate-400">You: {transcript.user}</p>}
+              {transcript.model && <p className="text-lg font-medium text-slate-100 leading-relaxed">{transcript.model}</p>}
+            </div>
+          ) : (
+            <p className="text-lg font-medium text-slate-100 leading-relaxed">
+              {lastMessage}
+            </p>
+          )}
         </div>
 
         {/* Control Bar */}
@@ -62,11 +228,29 @@ export const HUD: React.FC<HUDProps> = ({ mode, lastMessage, isListening, onMicC
                     {isNavigating ? <Square fill="currentColor" size={32} /> : <Play fill="currentColor" size={32} className="ml-1" />}
                 </div>
                 <span className="text-xs font-bold tracking-widest text-slate-400 uppercase">
-                    {isNavigating ? "STOP LIVE" : "START LIVE"}
+                    {isNavigating ? t('stopLive') : t('startLive')}
+                </span>
+            </button>
+
+            {/* 2. Live Conversation Button (Toggle) */}
+            <button 
+                onClick={onToggleLive}
+                className={`flex flex-col items-center gap-2 group transition-all ${isReading ? 'opacity-50 grayscale' : 'opacity-100'}`}
+                disabled={isReading}
+            >
+                <div className={`w-16 h-16 rounded-full flex items-center justify-center border-2 shadow-lg transition-all transform group-active:scale-95 ${
+                    isLive 
+                    ? 'bg-amber-500/20 border-amber-400 text-amber-400 animate-pulse' 
+                    : 'bg-slate-800 border-slate-600 text-amber-400 hover:border-amber-400 hover:text-white'
+                }`}>
+                    {isLive ? <Square fill="currentColor" size={24} /> : <MessageCircle size={28} />}
+                </div>
+                <span className="text-xs font-bold tracking-widest text-slate-400 uppercase">
+                    {isLive ? t('endTalk') : t('talk')}
                 </span>
             </button>
 
-            {/* 2. Voice Assistant Button (One-shot) */}
+            {/* 3. Voice Assistant Button (One-shot) */}
             <button 
                 onClick={onMicClick}
                 className={`flex flex-col items-center gap-2 group transition-all ${isNavigating ? 'opacity-80' : 'opacity-100'}`}
@@ -79,7 +263,7 @@ export const HUD: React.FC<HUDProps> = ({ mode, lastMessage, isListening, onMicC
                     <Mic size={28} />
                 </div>
                 <span className="text-xs font-bold tracking-widest text-slate-400 uppercase">
-                    ASK AI
+                    {t('askAi')}
                 </span>
             </button>
 
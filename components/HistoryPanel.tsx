@@ -0,0 +1,72 @@
+import React from 'react';
+import { Download, Trash2, X } from 'lucide-react';
+import { AILogEntry, AppMode } from '../types';
+import { downloadText, historyToCSV, historyToJSON } from '../services/historyStore';
+import { t } from '../services/i18n';
+
+interface HistoryPanelProps {
+  entries: AILogEntry[];
+  onReplay: (entry: AILogEntry) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODE_LABEL: Partial<Record<AppMode, string>> = {
+  [AppMode.NAVIGATING]: 'NAV',
+  [AppMode.READING]: 'ASK',
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onReplay, onClear, onClose }) => {
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-black/90 backdrop-blur-xl p-6" role="dialog" aria-label={t('historyDialog')}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-slate-100">{t('history')}</h2>
+        <button onClick={onClose} aria-label={t('closeHistory')} className="p-2 text-slate-300 hover:text-white">
+          <X size={28} />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto flex flex-col gap-3">
+        {entries.length === 0 && (
+          <li className="text-slate-400 text-center mt-8">{t('nothingRecorded')}</li>
+        )}
+        {entries.map(entry => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onReplay(entry)}
+              className="w-full text-left bg-slate-800/70 border border-slate-700 rounded-xl p-3 hover:border-cyan-400"
+            >
+              <span className="text-xs font-bold tracking-widest text-slate-400">
+                {MODE_LABEL[entry.mode] || entry.mode} · {entry.timestamp.toLocaleTimeString()}
+              </span>
+              <p className="text-slate-100 mt-1">{entry.text}</p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-center gap-4 mt-4">
+        <button
+          onClick={() => downloadText(`blind-eye-history-${stamp}.json`, historyToJSON(entries), 'application/json')}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-slate-800 border border-slate-600 text-cyan-400"
+        >
+          <Download size={20} /> JSON
+        </button>
+        <button
+          onClick={() => downloadText(`blind-eye-history-${stamp}.csv`, historyToCSV(entries), 'text/csv')}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-slate-800 border border-slate-600 text-cyan-400"
+        >
+          <Download size={20} /> CSV
+        </button>
+        <button
+          onClick={onClear}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-red-500/20 border border-red-500 text-red-400"
+        >
+          <Trash2 size={20} /> {t('clear')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Minus, Plus, RotateCcw, X } from 'lucide-react';
+import { SETTING_ITEMS, UserPreferences } from '../services/preferences';
+import { t } from '../services/i18n';
+
+interface SettingsPanelProps {
+  prefs: UserPreferences;
+  voices: SpeechSynthesisVoice[];
+  focusedIndex: number;
+  onFocus: (index: number) => void;
+  onAdjust: (index: number, direction: 1 | -1) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ prefs, voices, focusedIndex, onFocus, onAdjust, onReset, onClose }) => {
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-black/90 backdrop-blur-xl p-6" role="dialog" aria-label={t('settings')}>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-slate-100">{t('settings')}</h2>
+        <button onClick={onClose} aria-label="Close settings" className="p-2 text-slate-300 hover:text-white">
+          <X size={28} />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto flex flex-col gap-3">
+        {SETTING_ITEMS.map((item, index) => {
+          const focused = index === focusedIndex;
+          return (
+            <li
+              key={item.label}
+              onClick={() => onFocus(index)}
+              aria-current={focused}
+              className={`flex items-center justify-between gap-3 rounded-xl p-3 border ${
+                focused ? 'bg-cyan-500/20 border-cyan-400' : 'bg-slate-800/70 border-slate-700'
+              }`}
+            >
+              <div className="min-w-0">
+                <span className="text-xs font-bold tracking-widest text-slate-400 uppercase">{t(item.label)}</span>
+                <p className="text-lg text-slate-100 truncate" aria-live={focused ? 'polite' : undefined}>
+                  {item.describe(prefs, voices)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onAdjust(index, -1); }}
+                  aria-label={`${t(item.label)} -`}
+                  className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800 border border-slate-600 text-cyan-400"
+                >
+                  <Minus size={22} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onAdjust(index, 1); }}
+                  aria-label={`${t(item.label)} +`}
+                  className="w-12 h-12 rounded-full flex items-center justify-center bg-slate-800 border border-slate-600 text-cyan-400"
+                >
+                  <Plus size={22} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center justify-center mt-4">
+        <button
+          onClick={onReset}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-slate-800 border border-slate-600 text-slate-300"
+        >
+          <RotateCcw size={20} /> {t('reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Siren } from 'lucide-react';
+import { SosState } from '../services/emergencySos';
+import { t } from '../services/i18n';
+
+interface SosOverlayProps {
+  state: SosState;
+  secondsLeft: number;   // Countdown before contacts are alerted
+  onCancel: () => void;  // Cancels the countdown, or tells contacts the user is safe
+}
+
+/**
+ * Full-screen SOS status. The whole screen is one button, so it can be found
+ * without looking: tap anywhere to cancel the countdown or to say you're safe.
+ */
+export const SosOverlay: React.FC<SosOverlayProps> = ({ state, secondsLeft, onCancel }) => {
+  if (state === 'idle') return null;
+  const counting = state === 'countdown';
+
+  return (
+    <button
+      onClick={onCancel}
+      aria-live="assertive"
+      aria-label={counting ? t('sosTapCancel') : t('sosTapSafe')}
+      className={`absolute inset-0 z-30 flex flex-col items-center justify-center gap-6 text-white ${counting ? 'bg-red-700/95' : 'bg-red-600 animate-pulse'}`}
+    >
+      <Siren size={72} />
+      <span className="text-6xl font-black tracking-widest">{t('sosTitle')}</span>
+      <span className="text-3xl font-bold">
+        {counting ? t('sosSendingIn', { seconds: secondsLeft }) : t('sosAlerted')}
+      </span>
+      <span className="text-xl text-red-100">{counting ? t('sosTapCancel') : t('sosTapSafe')}</span>
+    </button>
+  );
+};
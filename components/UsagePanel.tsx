@@ -0,0 +1,155 @@
+import React from 'react';
+import { Download, Trash2, X } from 'lucide-react';
+import { useTelemetry } from '../hooks/useTelemetry';
+import { CALL_PURPOSES, CallPurpose, clearTelemetry, getBudgetStatus, UsageTotals } from '../services/telemetry';
+import { downloadText } from '../services/historyStore';
+import { StringKey, t } from '../services/i18n';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const PURPOSE_LABEL: Record<CallPurpose, StringKey> = {
+  router: 'purposeRouter',
+  navigation: 'purposeNavigation',
+  assistant: 'purposeAssistant',
+  document: 'purposeDocument',
+  money: 'purposeMoney',
+  live: 'purposeLive',
+};
+
+const formatTokens = (n: number) => n >= 10000 ? `${Math.round(n / 1000)}k` : n.toLocaleString();
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const averageLatency = (totals: UsageTotals) => totals.calls ? `${Math.round(totals.latencyMs / totals.calls)} ms` : '–';
+
+const BudgetBar: React.FC<{ label: string; used: number; limit: number; format: (n: number) => string }> = ({ label, used, limit, format }) => {
+  const fraction = Math.min(1, used / limit);
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-slate-300 mb-1">
+        <span>{label}</span>
+        <span>{format(used)} / {format(limit)}</span>
+      </div>
+      <div className="h-2 rounded-full bg-slate-700 overflow-hidden" role="progressbar" aria-valuenow={Math.round(fraction * 100)} aria-valuemin={0} aria-valuemax={100}>
+        <div className={`h-full ${fraction >= 1 ? 'bg-red-500' : fraction >= 0.8 ? 'bg-amber-400' : 'bg-cyan-400'}`} style={{ width: `${fraction * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * On-device dashboard of model calls: today's tokens, cost, latency and failures
+ * per purpose, the daily budget, and the latest calls.
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const { today, recent } = useTelemetry();
+  const budget = getBudgetStatus(today);
+
+  const stats: [StringKey, string][] = [
+    ['usageCalls', today.calls.toLocaleString()],
+    ['usageTokens', formatTokens(today.inputTokens + today.outputTokens)],
+    ['usageCost', formatCost(today.costUsd)],
+    ['usageLatency', averageLatency(today)],
+    ['usageRetries', String(today.retries)],
+    ['usageFailovers', String(today.failovers)],
+    ['usageErrors', String(today.errors)],
+    ['usageDegraded', String(today.degraded)],
+  ];
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-black/90 backdrop-blur-xl p-6" role="dialog" aria-label="Model usage">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-slate-100">{t('usage')} · {today.day}</h2>
+        <button onClick={onClose} aria-label="Close usage" className="p-2 text-slate-300 hover:text-white">
+          <X size={28} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-5">
+        <div className="grid grid-cols-4 gap-2">
+          {stats.map(([label, value]) => (
+            <div key={label} className="bg-slate-800/70 border border-slate-700 rounded-xl p-2 text-center">
+              <div className="text-lg font-bold text-cyan-300">{value}</div>
+              <div className="text-xs text-slate-400">{t(label)}</div>
+            </div>
+          ))}
+        </div>
+
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-bold tracking-widest text-slate-400 uppercase">{t('usageBudget')}</h3>
+          {budget.tokenLimit > 0 && (
+            <BudgetBar label={t('usageTokens')} used={budget.tokensUsed} limit={budget.tokenLimit} format={formatTokens} />
+          )}
+          {budget.costLimitUsd > 0 && (
+            <BudgetBar label={t('usageCost')} used={budget.costUsed} limit={budget.costLimitUsd} format={formatCost} />
+          )}
+          {!budget.tokenLimit && !budget.costLimitUsd && <p className="text-slate-400 text-sm">{t('usageNoBudget')}</p>}
+          {budget.exceeded && <p className="text-red-400 text-sm font-bold">{t('usageOverBudget')}</p>}
+        </section>
+
+        <table className="w-full text-sm text-slate-200">
+          <thead className="text-xs text-slate-400">
+            <tr>
+              <th className="text-left font-normal py-1">{t('usagePurpose')}</th>
+              <th className="text-right font-normal">{t('usageCalls')}</th>
+              <th className="text-right font-normal">{t('usageTokens')}</th>
+              <th className="text-right font-normal">{t('usageCost')}</th>
+              <th className="text-right font-normal">{t('usageLatency')}</th>
+              <th className="text-right font-normal">{t('usageErrors')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {CALL_PURPOSES.map(purpose => {
+              const totals = today.byPurpose[purpose];
+              return (
+                <tr key={purpose} className="border-t border-slate-800">
+                  <td className="py-1">{t(PURPOSE_LABEL[purpose])}</td>
+                  <td className="text-right">{totals.calls}</td>
+                  <td className="text-right">{formatTokens(totals.inputTokens + totals.outputTokens)}</td>
+                  <td className="text-right">{formatCost(totals.costUsd)}</td>
+                  <td className="text-right">{averageLatency(totals)}</td>
+                  <td className={`text-right ${totals.errors ? 'text-red-400' : ''}`}>{totals.errors}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <section>
+          <h3 className="text-sm font-bold tracking-widest text-slate-400 uppercase mb-2">{t('usageRecent')}</h3>
+          {recent.length === 0 && <p className="text-slate-400 text-center">{t('nothingRecorded')}</p>}
+          <ul className="flex flex-col gap-1 text-xs text-slate-300">
+            {recent.slice(0, 50).map(call => (
+              <li key={`${call.timestamp}-${call.purpose}-${call.attempt}`} className="flex gap-2 bg-slate-800/50 rounded-lg px-2 py-1">
+                <span className="text-slate-500">{new Date(call.timestamp).toLocaleTimeString()}</span>
+                <span className="font-bold">{t(PURPOSE_LABEL[call.purpose])}</span>
+                <span className="flex-1 truncate">{call.model}</span>
+                <span>{call.latencyMs} ms</span>
+                <span>{formatTokens(call.inputTokens + call.outputTokens)}</span>
+                {call.attempt > 1 && <span className="text-amber-400">#{call.attempt}</span>}
+                {call.failover && <span className="text-amber-400">↓</span>}
+                {call.degraded && <span className="text-amber-400">$</span>}
+                {call.error && <span className="text-red-400 truncate max-w-[30%]" title={call.error}>{call.error}</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+
+      <div className="flex items-center justify-center gap-4 mt-4">
+        <button
+          onClick={() => downloadText(`blind-eye-usage-${today.day}.json`, JSON.stringify({ today, recent }, null, 2), 'application/json')}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-slate-800 border border-slate-600 text-cyan-400"
+        >
+          <Download size={20} /> JSON
+        </button>
+        <button
+          onClick={clearTelemetry}
+          className="flex items-center gap-2 px-4 py-3 rounded-xl bg-red-500/20 border border-red-500 text-red-400"
+        >
+          <Trash2 size={20} /> {t('clear')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState, useCallback, useRef } from 'react';
+import { DocumentBlock, ReadingDocument } from '../types';
+import { appendPage, createDocument, pageStartIndex } from '../services/documentReader';
+import { getLatestDocument, saveDocument } from '../services/documentStore';
+
+/**
+ * The open document and the reading position. Every change is saved, so
+ * reading can be resumed after closing the app.
+ */
+export const useDocumentReader = () => {
+  const [doc, setDoc] = useState<ReadingDocument | null>(null);
+  // docRef lets a reading loop that outlives renders see the latest position
+  const docRef = useRef<ReadingDocument | null>(null);
+
+  const commit = useCallback((next: ReadingDocument | null) => {
+    docRef.current = next;
+    setDoc(next);
+    if (next) saveDocument(next).catch(e => console.warn("📄 Could not save document:", e));
+  }, []);
+
+  const current = useCallback((): DocumentBlock | null => {
+    const d = docRef.current;
+    return d ? d.blocks[d.position] || null : null;
+  }, []);
+
+  const startNew = useCallback((): ReadingDocument => {
+    const created = createDocument();
+    commit(created);
+    return created;
+  }, [commit]);
+
+  const addPage = useCallback((page: { title?: string; blocks: DocumentBlock[] }): ReadingDocument => {
+    const updated = appendPage(docRef.current || createDocument(), page);
+    commit(updated);
+    return updated;
+  }, [commit]);
+
+  /**
+   * Moves to a block. Returns it, or null (position unchanged) if out of range.
+   */
+  const moveTo = useCallback((index: number): DocumentBlock | null => {
+    const d = docRef.current;
+    if (!d || index < 0 || index >= d.blocks.length) return null;
+    commit({ ...d, position: index, updatedAt: new Date() });
+    return d.blocks[index];
+  }, [commit]);
+
+  const step = useCallback((delta: number): DocumentBlock | null => {
+    const d = docRef.current;
+    return d ? moveTo(d.position + delta) : null;
+  }, [moveTo]);
+
+  /**
+   * Jumps to the first block of the next or previous page.
+   * Returns the page number, or null if there is no such page.
+   */
+  const stepPage = useCallback((delta: number): number | null => {
+    const d = docRef.current;
+    const block = current();
+    if (!d || !block) return null;
+    const page = block.page + delta;
+    const index = pageStartIndex(d, page);
+    if (index < 0) return null;
+    moveTo(index);
+    return page;
+  }, [current, moveTo]);
+
+  /**
+   * Reopens the most recently read document at its saved position.
+   */
+  const resumeLatest = useCallback(async (): Promise<ReadingDocument | null> => {
+    try {
+      const latest = await getLatestDocument();
+      if (latest && latest.blocks.length > 0) {
+        docRef.current = latest;
+        setDoc(latest);
+        return latest;
+      }
+    } catch (e) {
+      console.warn("📄 Could not load saved document:", e);
+    }
+    return null;
+  }, []);
+
+  const close = useCallback(() => {
+    docRef.current = null;
+    setDoc(null);
+  }, []);
+
+  return { doc, docRef, current, startNew, addPage, moveTo, step, stepPage, resumeLatest, close };
+};
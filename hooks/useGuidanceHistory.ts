@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AILogEntry, AppMode } from '../types';
+import { addLogEntry, clearLogEntries, createLogEntry, getLogEntries } from '../services/historyStore';
+
+export const useGuidanceHistory = () => {
+  const [entries, setEntries] = useState<AILogEntry[]>([]);
+  // Newest first; entriesRef lets long-running loops read the latest list
+  const entriesRef = useRef<AILogEntry[]>([]);
+  // How far back "before that" has walked
+  const cursorRef = useRef(0);
+
+  useEffect(() => {
+    getLogEntries()
+      .then(loaded => {
+        entriesRef.current = loaded;
+        setEntries(loaded);
+      })
+      .catch(e => console.warn("📜 Could not load history:", e));
+  }, []);
+
+  const record = useCallback((mode: AppMode, text: string) => {
+    if (!text) return;
+    const entry = createLogEntry(mode, text);
+    entriesRef.current = [entry, ...entriesRef.current];
+    cursorRef.current = 0;
+    setEntries(entriesRef.current);
+    addLogEntry(entry).catch(e => console.warn("📜 Could not save history entry:", e));
+  }, []);
+
+  const clear = useCallback(async () => {
+    entriesRef.current = [];
+    cursorRef.current = 0;
+    setEntries([]);
+    await clearLogEntries().catch(e => console.warn("📜 Could not clear history:", e));
+  }, []);
+
+  /**
+   * Latest entry, and resets the "before that" cursor.
+   */
+  const latest = useCallback((): AILogEntry | null => {
+    cursorRef.current = 0;
+    return entriesRef.current[0] || null;
+  }, []);
+
+  /**
+   * Steps one entry further back each time it is called.
+   */
+  const previous = useCallback((): AILogEntry | null => {
+    const next = cursorRef.current + 1;
+    if (next >= entriesRef.current.length) return null;
+    cursorRef.current = next;
+    return entriesRef.current[next];
+  }, []);
+
+  return { entries, record, clear, latest, previous };
+};
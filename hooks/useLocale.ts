@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, Locale, setLocale, subscribeLocale } from '../services/i18n';
+
+/**
+ * Current locale; re-renders the component when the user switches language.
+ */
+export const useLocale = (): [Locale, (locale: Locale) => void] => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return [locale, setLocale];
+};
@@ -0,0 +1,52 @@
+import { useState, useCallback, useRef } from 'react';
+import { BanknoteReading } from '../types';
+import { addToTally, MoneyTally } from '../services/moneyCounter';
+
+interface MoneyCount {
+  tally: MoneyTally;
+  notes: number;
+}
+
+const EMPTY: MoneyCount = { tally: {}, notes: 0 };
+
+/**
+ * Money mode: whether it is on and the running total of the notes counted so far.
+ */
+export const useMoneyCounter = () => {
+  const [active, setActive] = useState(false);
+  const [count, setCount] = useState<MoneyCount>(EMPTY);
+  // Refs let voice handlers created in an earlier render see the current state
+  const activeRef = useRef(false);
+  const countRef = useRef<MoneyCount>(EMPTY);
+
+  const commit = useCallback((next: MoneyCount) => {
+    countRef.current = next;
+    setCount(next);
+  }, []);
+
+  const start = useCallback(() => {
+    activeRef.current = true;
+    setActive(true);
+  }, []);
+
+  const add = useCallback((note: BanknoteReading): MoneyCount => {
+    const next = { tally: addToTally(countRef.current.tally, note), notes: countRef.current.notes + 1 };
+    commit(next);
+    return next;
+  }, [commit]);
+
+  const reset = useCallback(() => commit(EMPTY), [commit]);
+
+  /**
+   * Leaves money mode. Returns the final count; the total starts from zero next time.
+   */
+  const stop = useCallback((): MoneyCount => {
+    const final = countRef.current;
+    activeRef.current = false;
+    setActive(false);
+    commit(EMPTY);
+    return final;
+  }, [commit]);
+
+  return { active, activeRef, count, countRef, start, add, reset, stop };
+};
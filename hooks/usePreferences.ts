@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getPreferences, subscribePreferences, updatePreferences, UserPreferences } from '../services/preferences';
+
+/**
+ * Current preferences; re-renders the component when they change.
+ */
+export const usePreferences = (): [UserPreferences, (changes: Partial<UserPreferences>) => void] => {
+  const prefs = useSyncExternalStore(subscribePreferences, getPreferences);
+  return [prefs, updatePreferences];
+};
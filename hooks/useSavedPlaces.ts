@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GeoLocation, SavedPlace } from '../types';
+import { deletePlace, getPlaces, savePlace } from '../services/placeStore';
+
+/**
+ * Places the user has saved by voice, kept on-device.
+ */
+export const useSavedPlaces = () => {
+  const [places, setPlaces] = useState<SavedPlace[]>([]);
+  // placesRef lets GPS and voice handlers read the latest list
+  const placesRef = useRef<SavedPlace[]>([]);
+
+  const commit = useCallback((next: SavedPlace[]) => {
+    placesRef.current = next;
+    setPlaces(next);
+  }, []);
+
+  useEffect(() => {
+    getPlaces()
+      .then(commit)
+      .catch(e => console.warn("📍 Could not load saved places:", e));
+  }, [commit]);
+
+  const add = useCallback((label: string, location: GeoLocation, photo?: string): SavedPlace => {
+    const place: SavedPlace = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      label,
+      location,
+      ...(photo ? { photo } : {}),
+      createdAt: new Date(),
+    };
+    commit([...placesRef.current, place]);
+    savePlace(place).catch(e => console.warn("📍 Could not save place:", e));
+    return place;
+  }, [commit]);
+
+  const rename = useCallback((place: SavedPlace, label: string) => {
+    const renamed = { ...place, label };
+    commit(placesRef.current.map(p => p.id === place.id ? renamed : p));
+    savePlace(renamed).catch(e => console.warn("📍 Could not rename place:", e));
+  }, [commit]);
+
+  const remove = useCallback((place: SavedPlace) => {
+    commit(placesRef.current.filter(p => p.id !== place.id));
+    deletePlace(place.id).catch(e => console.warn("📍 Could not delete place:", e));
+  }, [commit]);
+
+  return { places, placesRef, add, rename, remove };
+};
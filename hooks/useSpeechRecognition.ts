@@ -1,23 +1,213 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { getLocale } from '../services/i18n';
+import { matchWakePhrase } from '../services/wakeWord';
 
-export const useSpeechRecognition = (onCommand: (command: string) => void) => {
+// After the wake phrase alone, the next utterance within this window is the command
+const WAKE_WINDOW_MS = 8000;
+// Restart delays for the always-listening recognizer (grows on repeated errors)
+const RESTART_DELAY_MS = 300;
+const MAX_RESTART_DELAY_MS = 10000;
+
+interface SpeechRecognitionOptions {
+  wakePhrase?: string | null;   // When set, listen continuously and act on speech after this phrase
+  onWake?: () => void;          // Wake phrase heard without a command; the next utterance is awaited
+}
+
+export const useSpeechRecognition = (onCommand: (command: string) => void, options: SpeechRecognitionOptions = {}) => {
   const [isListening, setIsListening] = useState(false);
+  const [isAlwaysListening, setIsAlwaysListening] = useState(false);
   const recognitionRef = useRef<any>(null);
   const isMounted = useRef(false);
   const retryTimeoutRef = useRef<any>(null);
 
+  // Handlers outlive renders in continuous mode, so they read the latest values through refs
+  const onCommandRef = useRef(onCommand);
+  const optionsRef = useRef(options);
+  onCommandRef.current = onCommand;
+  optionsRef.current = options;
+
+  const alwaysListeningRef = useRef(false);
+  const awaitingUntilRef = useRef(0);
+  const awaitingTimeoutRef = useRef<any>(null);
+  const restartFailuresRef = useRef(0);
+
   useEffect(() => {
     isMounted.current = true;
-    
+
     return () => {
       isMounted.current = false;
+      alwaysListeningRef.current = false;
       if (recognitionRef.current) {
         try { recognitionRef.current.abort(); } catch(e){}
       }
       if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+      if (awaitingTimeoutRef.current) clearTimeout(awaitingTimeoutRef.current);
     };
   }, []);
 
+  const deliverCommand = (rawTranscript: string) => {
+    // Passed on as heard: control commands are matched by the intent parser,
+    // questions go to the model word for word
+    const transcript = rawTranscript.trim();
+    console.log("Recognized:", transcript);
+
+    // Enhanced command validation
+    if (transcript.length > 0) {
+      // Filter out empty or too short commands
+      if (transcript.length < 2) {
+        console.log("Command too short, ignoring");
+        return;
+      }
+
+      // Validate command contains meaningful content
+      const meaningfulWords = transcript.toLowerCase().split(' ').filter(word =>
+        word.length > 1 && !['the', 'a', 'an', 'is', 'are'].includes(word)
+      );
+
+      if (meaningfulWords.length === 0) {
+        console.log("No meaningful words detected, ignoring");
+        return;
+      }
+
+      onCommandRef.current(transcript);
+    }
+  };
+
+  const setAwaiting = (awaiting: boolean) => {
+    if (awaitingTimeoutRef.current) clearTimeout(awaitingTimeoutRef.current);
+    awaitingUntilRef.current = awaiting ? Date.now() + WAKE_WINDOW_MS : 0;
+    if (isMounted.current) setIsListening(awaiting);
+    if (awaiting) {
+      awaitingTimeoutRef.current = setTimeout(() => setAwaiting(false), WAKE_WINDOW_MS);
+    }
+  };
+
+  /**
+   * Always-listening mode: only speech after the wake phrase (or the next
+   * utterance after the phrase alone) becomes a command.
+   */
+  const handleContinuousTranscript = (transcript: string) => {
+    if (Date.now() < awaitingUntilRef.current) {
+      setAwaiting(false);
+      deliverCommand(transcript);
+      return;
+    }
+
+    const wakePhrase = optionsRef.current.wakePhrase;
+    const match = wakePhrase ? matchWakePhrase(transcript, wakePhrase) : null;
+    if (!match) return;
+
+    console.log("👂 Wake phrase heard");
+    if (match.rest) {
+      deliverCommand(match.rest);
+    } else {
+      setAwaiting(true);
+      optionsRef.current.onWake?.();
+    }
+  };
+
+  const createRecognition = (continuous: boolean) => {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = continuous;
+    recognition.interimResults = false;
+    recognition.lang = getLocale();
+
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex ?? event.results.length - 1; i < event.results.length; i++) {
+        if (!event.results[i].isFinal) continue;
+        const transcript = event.results[i][0].transcript;
+        if (continuous) {
+          restartFailuresRef.current = 0;
+          handleContinuousTranscript(transcript);
+        } else {
+          deliverCommand(transcript);
+        }
+      }
+    };
+
+    return recognition;
+  };
+
+  const startAlwaysListeningSession = () => {
+    if (!alwaysListeningRef.current || !isMounted.current) return;
+
+    let lastError: string | null = null;
+
+    try {
+      const recognition = createRecognition(true);
+
+      recognition.onstart = () => {
+        console.log("👂 Always-listening recognizer started");
+      };
+
+      recognition.onerror = (event: any) => {
+        lastError = event.error;
+        if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+          console.warn("👂 Microphone permission denied, always-listening off");
+          alwaysListeningRef.current = false;
+          if (isMounted.current) setIsAlwaysListening(false);
+        } else if (event.error !== 'no-speech' && event.error !== 'aborted') {
+          console.warn("👂 Always-listening recognizer error", event.error);
+        }
+      };
+
+      // Browsers end continuous recognition after silence or a minute or so; start it again
+      recognition.onend = () => {
+        if (recognitionRef.current === recognition) recognitionRef.current = null;
+        if (!alwaysListeningRef.current || !isMounted.current) return;
+
+        const failed = lastError !== null && lastError !== 'no-speech' && lastError !== 'aborted';
+        restartFailuresRef.current = failed ? restartFailuresRef.current + 1 : 0;
+        const delay = Math.min(MAX_RESTART_DELAY_MS, RESTART_DELAY_MS * Math.pow(2, restartFailuresRef.current));
+
+        if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = setTimeout(startAlwaysListeningSession, delay);
+      };
+
+      recognitionRef.current = recognition;
+      recognition.start();
+    } catch (e) {
+      console.error("Failed to start always-listening recognizer", e);
+      restartFailuresRef.current++;
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = setTimeout(startAlwaysListeningSession, MAX_RESTART_DELAY_MS);
+    }
+  };
+
+  const startAlwaysListening = useCallback(() => {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (!SpeechRecognition) {
+      console.warn("Speech Recognition not supported in this browser");
+      return;
+    }
+    if (alwaysListeningRef.current) return;
+
+    // Replace any one-shot recognizer that is still running
+    if (recognitionRef.current) {
+      try { recognitionRef.current.abort(); } catch(e){}
+      recognitionRef.current = null;
+    }
+
+    alwaysListeningRef.current = true;
+    restartFailuresRef.current = 0;
+    setIsAlwaysListening(true);
+    startAlwaysListeningSession();
+  }, []);
+
+  const stopAlwaysListening = useCallback(() => {
+    if (!alwaysListeningRef.current) return;
+    alwaysListeningRef.current = false;
+    if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    setAwaiting(false);
+
+    if (recognitionRef.current) {
+      try { recognitionRef.current.abort(); } catch(e){}
+      recognitionRef.current = null;
+    }
+    setIsAlwaysListening(false);
+  }, []);
+
   const startListening = useCallback(() => {
     // Basic browser support check
     const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -26,13 +216,16 @@ export const useSpeechRecognition = (onCommand: (command: string) => void) => {
       return;
     }
 
+    // Always-listening is already running: treat the next utterance as the command
+    if (alwaysListeningRef.current) {
+      setAwaiting(true);
+      return;
+    }
+
     if (isListening) return;
 
     try {
-      const recognition = new SpeechRecognition();
-      recognition.continuous = false;
-      recognition.interimResults = false;
-      recognition.lang = 'en-US';
+      const recognition = createRecognition(false);
 
       recognition.onstart = () => {
         if (isMounted.current) setIsListening(true);
@@ -43,48 +236,6 @@ export const useSpeechRecognition = (onCommand: (command: string) => void) => {
         if (isMounted.current) setIsListening(false);
         console.log("Speech Recognition Ended");
       };
-      
-      recognition.onresult = (event: any) => {
-        const lastResultIndex = event.results.length - 1;
-        if (event.results[lastResultIndex].isFinal) {
-          let transcript = event.results[lastResultIndex][0].transcript.trim();
-          
-          // Enhanced transcription processing
-          // Clean up common transcription errors
-          transcript = transcript
-            .replace(/\b(stop|top|shop)\b/gi, 'stop') // Common misrecognitions
-            .replace(/\b(left|right|write|ride)\b/gi, '$1') // Direction commands
-            .replace(/\b(where|wear)\b/gi, 'where') // Location questions
-            .replace(/\b(navigate|navigation)\b/gi, 'navigate') // Navigation commands
-            .replace(/\b(what's|what is)\b/gi, 'what is') // Object identification
-            .replace(/\b(read|need|need to)\b/gi, 'read') // Reading commands
-            .replace(/\b(safe|danger|obstacle)\b/gi, 'safe') // Safety commands
-            .toLowerCase();
-          
-          console.log("Enhanced Recognized:", transcript);
-          
-          // Enhanced command validation
-          if (transcript.length > 0) {
-            // Filter out empty or too short commands
-            if (transcript.length < 2) {
-              console.log("Command too short, ignoring");
-              return;
-            }
-            
-            // Validate command contains meaningful content
-            const meaningfulWords = transcript.split(' ').filter(word =>
-              word.length > 1 && !['the', 'a', 'an', 'is', 'are'].includes(word)
-            );
-            
-            if (meaningfulWords.length === 0) {
-              console.log("No meaningful words detected, ignoring");
-              return;
-            }
-            
-            onCommand(transcript);
-          }
-        }
-      };
 
       recognition.onerror = (event: any) => {
         console.warn("Speech recognition error", event.error);
@@ -108,11 +259,17 @@ export const useSpeechRecognition = (onCommand: (command: string) => void) => {
     } catch (e) {
       console.error("Failed to start recognition", e);
     }
-  }, [isListening, onCommand]);
+  }, [isListening]);
 
   const stopListening = useCallback(() => {
+    // Always-listening keeps running; only a pending command is dropped
+    if (alwaysListeningRef.current) {
+      setAwaiting(false);
+      return;
+    }
+
     if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
-    
+
     if (recognitionRef.current) {
       try { recognitionRef.current.stop(); } catch(e){}
       recognitionRef.current = null;
@@ -120,5 +277,5 @@ export const useSpeechRecognition = (onCommand: (command: string) => void) => {
     setIsListening(false);
   }, []);
 
-  return { isListening, startListening, stopListening };
-};
\ No newline at end of file
+  return { isListening, isAlwaysListening, startListening, stopListening, startAlwaysListening, stopAlwaysListening };
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getTelemetry, subscribeTelemetry, TelemetrySnapshot } from '../services/telemetry';
+
+/**
+ * Today's model usage and recent calls; re-renders the component as calls are recorded.
+ */
+export const useTelemetry = (): TelemetrySnapshot => useSyncExternalStore(subscribeTelemetry, getTelemetry);
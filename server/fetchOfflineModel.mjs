@@ -0,0 +1,45 @@
+/**
+ * Downloads the COCO-SSD (lite MobileNet v2) weights used by the offline obstacle
+ * detector into public/models/coco-ssd, so they are served with the app and keep
+ * working without a network. Run it once and commit the files; `npm run build`
+ * never downloads anything and fails if they are missing.
+ *
+ *   npm run fetch:offline-model             # skips files already there
+ *   npm run fetch:offline-model -- --force  # downloads them again
+ */
+import { access, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const SOURCE = 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2';
+const TARGET = path.resolve('public/models/coco-ssd');
+const FORCE = process.argv.includes('--force');
+
+const exists = (file) => access(file).then(() => true, () => false);
+
+const download = async (name) => {
+  const file = path.join(TARGET, name);
+  if (!FORCE && await exists(file)) return readFile(file);
+  const res = await fetch(`${SOURCE}/${name}`);
+  if (!res.ok) throw new Error(`${name}: HTTP ${res.status}`);
+  const data = Buffer.from(await res.arrayBuffer());
+  await writeFile(file, data);
+  console.log(`  ${name} (${Math.round(data.length / 1024)} KB)`);
+  return data;
+};
+
+try {
+  await mkdir(TARGET, { recursive: true });
+  console.log(`Fetching offline model into ${TARGET}`);
+
+  const manifest = JSON.parse((await download('model.json')).toString('utf8'));
+  const shards = (manifest.weightsManifest || []).flatMap(group => group.paths);
+  for (const shard of shards) {
+    await download(shard);
+  }
+
+  console.log(`Done: model.json + ${shards.length} weight file(s).`);
+} catch (e) {
+  console.error(`Could not fetch the offline model: ${e.message}`);
+  console.error('Without it the app has no obstacle detection when the connection drops.');
+  process.exit(1);
+}
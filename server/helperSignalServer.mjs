@@ -0,0 +1,269 @@
+/**
+ * Signalling server for sighted-helper calls, and the helper's web page.
+ * Only connection setup passes through here (offers, answers, ICE candidates);
+ * video, audio and messages go directly between the two browsers over WebRTC.
+ *
+ *   npm run helper:server           # http://localhost:8790, helper page at /helper
+ *   HELPER_SIGNAL_PORT=9003 npm run helper:server
+ *
+ * Point the app at it with HELPER_SIGNAL_URL. Each call is a room with a 6-digit
+ * code (for people to say) and a random token per side (the credential): the app
+ * creates the room and shares the helper link, which carries the helper token.
+ * Each side listens on a Server-Sent Events stream and POSTs what it wants
+ * relayed to the other. A helper who joins only knocks: the app offers its
+ * camera and microphone once the user has accepted them by name.
+ *
+ * Only pages from HELPER_ALLOWED_ORIGINS (comma separated, default the Vite dev
+ * server) may call it from a browser, besides the helper page served here.
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.HELPER_SIGNAL_PORT || 8790);
+const HELPER_PAGE = new URL('./helperPage.html', import.meta.url);
+const MAX_BODY_BYTES = 256 * 1024;
+// Comment lines keep idle event streams open through proxies
+const KEEPALIVE_MS = 20000;
+// Empty rooms are dropped once they are this old
+const ROOM_TTL_MS = 60 * 60 * 1000;
+const ROLES = ['user', 'helper'];
+const ALLOWED_ORIGINS = (process.env.HELPER_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',').map(origin => origin.trim()).filter(Boolean);
+// Per client address: joins with a wrong code or token, and rooms created, per minute
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_FAILED_JOINS = 10;
+const MAX_ROOMS_CREATED = 10;
+const MAX_NAME_LENGTH = 40;
+
+/** code -> { tokens: { user, helper }, user: res | null, helper: res | null, createdAt } */
+const rooms = new Map();
+/** `${bucket}:${address}` -> timestamps within the window */
+const attempts = new Map();
+
+const corsHeaders = (req) => {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    Vary: 'Origin',
+  };
+};
+
+const send = (req, res, status, payload) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(req) });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+/**
+ * Counts one attempt in a bucket for this client; true once it is over the limit.
+ */
+const overLimit = (req, bucket, max) => {
+  const key = `${bucket}:${req.socket.remoteAddress}`;
+  const now = Date.now();
+  const recent = (attempts.get(key) || []).filter(time => now - time < RATE_WINDOW_MS);
+  recent.push(now);
+  attempts.set(key, recent);
+  return recent.length > max;
+};
+
+const isLimited = (req, bucket, max) => {
+  const recent = attempts.get(`${bucket}:${req.socket.remoteAddress}`) || [];
+  return recent.filter(time => Date.now() - time < RATE_WINDOW_MS).length >= max;
+};
+
+/**
+ * Constant-time token check. Lengths are compared in bytes: a token of 36
+ * non-ASCII characters has the right string length but not the right size.
+ */
+export const sameToken = (a, b) => {
+  if (typeof a !== 'string') return false;
+  const given = Buffer.from(a);
+  const expected = Buffer.from(b);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * The room, if the token is the one for this role. A wrong code and a wrong token
+ * get the same answer, so codes can't be probed one by one.
+ */
+const findRoom = (code, role, token) => {
+  const room = rooms.get(code);
+  return room && sameToken(token, room.tokens[role]) ? room : null;
+};
+
+const closeRoom = (code) => {
+  const room = rooms.get(code);
+  if (!room) return;
+  rooms.delete(code);
+  for (const role of ROLES) room[role]?.end();
+  console.log(`📞 Call ${code} closed`);
+};
+
+const push = (res, message) => {
+  if (res) res.write(`data: ${JSON.stringify(message)}\n\n`);
+};
+
+const other = (role) => role === 'user' ? 'helper' : 'user';
+
+const newCode = () => {
+  let code;
+  do {
+    code = String(crypto.randomInt(100000, 1000000));
+  } while (rooms.has(code));
+  return code;
+};
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(body || '{}'));
+    } catch (e) {
+      reject(e);
+    }
+  });
+});
+
+const openEvents = (req, res, code, role, token, name) => {
+  if (isLimited(req, 'join', MAX_FAILED_JOINS)) return send(req, res, 429, { message: 'Too many attempts, wait a minute' });
+  const room = findRoom(code, role, token);
+  if (!room) {
+    overLimit(req, 'join', MAX_FAILED_JOINS);
+    return send(req, res, 404, { message: 'No call with this code and token' });
+  }
+  if (room[role]) return send(req, res, 409, { message: `A ${role} is already in this call` });
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive', ...corsHeaders(req) });
+  res.write(': connected\n\n');
+  room[role] = res;
+  if (role === 'helper') room.helperName = name;
+  console.log(`📞 ${role} joined ${code}`);
+
+  // Whoever arrives second lets the app know; it asks the user before offering anything
+  if (room.user && room.helper) push(room.user, { type: 'knock', name: room.helperName });
+
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    if (room[role] !== res) return;
+    room[role] = null;
+    console.log(`📞 ${role} left ${code}`);
+    // Either side may come back (EventSource reconnects by itself); the app sends 'bye' when the call is over
+    push(room[other(role)], { type: 'leave' });
+  });
+};
+
+const relay = async (req, res, code, token) => {
+  let message;
+  try {
+    message = await readJson(req);
+  } catch {
+    return send(req, res, 400, { message: 'Invalid JSON' });
+  }
+  if (!ROLES.includes(message.from)) return send(req, res, 400, { message: 'Missing from: user | helper' });
+
+  if (isLimited(req, 'join', MAX_FAILED_JOINS)) return send(req, res, 429, { message: 'Too many attempts, wait a minute' });
+  const room = findRoom(code, message.from, token);
+  if (!room) {
+    overLimit(req, 'join', MAX_FAILED_JOINS);
+    return send(req, res, 404, { message: 'No call with this code and token' });
+  }
+
+  // The user hung up: tell the helper, then nothing more can join this room
+  if (message.from === 'user' && message.type === 'bye') {
+    push(room.helper, message);
+    closeRoom(code);
+    return send(req, res, 200, { ok: true });
+  }
+
+  const target = room[other(message.from)];
+  if (!target) return send(req, res, 409, { message: 'The other side is not connected' });
+  push(target, message);
+
+  // The user turned this helper away: drop them and retire their link; the app gets a new one to share
+  if (message.from === 'user' && message.type === 'reject') {
+    room.helper = null;
+    target.end();
+    room.tokens.helper = crypto.randomUUID();
+    return send(req, res, 200, { ok: true, helperToken: room.tokens.helper });
+  }
+  send(req, res, 200, { ok: true });
+};
+
+const handleRequest = async (req, res) => {
+  // Browsers send Origin on cross-site requests; only the app and this server's own page are let through
+  const origin = req.headers.origin;
+  if (origin && !ALLOWED_ORIGINS.includes(origin) && origin !== `http://${req.headers.host}`) {
+    return send(req, res, 403, { message: 'Origin not allowed' });
+  }
+  if (req.method === 'OPTIONS') return send(req, res, 204);
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && (url.pathname === '/' || url.pathname === '/helper')) {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return fs.createReadStream(HELPER_PAGE).pipe(res);
+  }
+
+  // POST /rooms: the app starts a call and gets its code and both tokens
+  if (req.method === 'POST' && url.pathname === '/rooms') {
+    if (overLimit(req, 'create', MAX_ROOMS_CREATED)) return send(req, res, 429, { message: 'Too many calls, wait a minute' });
+    const code = newCode();
+    const tokens = { user: crypto.randomUUID(), helper: crypto.randomUUID() };
+    rooms.set(code, { tokens, user: null, helper: null, helperName: '', createdAt: Date.now() });
+    console.log(`📞 Call ${code} created`);
+    return send(req, res, 200, { code, userToken: tokens.user, helperToken: tokens.helper });
+  }
+
+  // GET /rooms/{code}/events?role=user|helper&token=...[&name=...], POST /rooms/{code}/signal?token=...
+  const match = url.pathname.match(/^\/rooms\/(\d{6})\/(events|signal)$/);
+  const token = url.searchParams.get('token');
+  if (match && match[2] === 'events' && req.method === 'GET') {
+    const role = url.searchParams.get('role');
+    if (!ROLES.includes(role)) return send(req, res, 400, { message: 'role must be user or helper' });
+    const name = (url.searchParams.get('name') || '').trim().slice(0, MAX_NAME_LENGTH);
+    if (role === 'helper' && !name) return send(req, res, 400, { message: 'The helper must give a name' });
+    return openEvents(req, res, match[1], role, token, name);
+  }
+  if (match && match[2] === 'signal' && req.method === 'POST') {
+    return relay(req, res, match[1], token);
+  }
+
+  send(req, res, 404, { message: 'Not found' });
+};
+
+// A bug in one request must not take every call down with it
+export const server = http.createServer((req, res) => {
+  handleRequest(req, res).catch(e => {
+    console.error('📞 Request failed:', e);
+    if (res.headersSent) return res.end();
+    send(req, res, 500, { message: 'Internal error' });
+  });
+});
+
+setInterval(() => {
+  const now = Date.now();
+  for (const [code, room] of rooms) {
+    if (!room.user && !room.helper && now - room.createdAt > ROOM_TTL_MS) rooms.delete(code);
+  }
+  for (const [key, times] of attempts) {
+    if (times.every(time => now - time >= RATE_WINDOW_MS)) attempts.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+// Started with `npm run helper:server`; tests import it and listen themselves
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  server.listen(PORT, () => {
+    console.log(`📞 Helper signalling server on http://localhost:${PORT} (helper page: /helper)`);
+  });
+}
@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { sameToken, server } from './helperSignalServer.mjs';
+
+// Right string length for a UUID token, but two bytes per character in UTF-8
+const WIDE_TOKEN = 'é'.repeat(36);
+
+let base;
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+const createRoom = async () => (await fetch(`${base}/rooms`, { method: 'POST' })).json();
+
+describe('sameToken', () => {
+  it('compares tokens by bytes, not characters', () => {
+    const token = crypto.randomUUID();
+    expect(sameToken(token, token)).toBe(true);
+    expect(sameToken(crypto.randomUUID(), token)).toBe(false);
+    expect(sameToken(WIDE_TOKEN, token)).toBe(false);
+    expect(sameToken(null, token)).toBe(false);
+  });
+});
+
+describe('helper signalling server', () => {
+  it('refuses a wide token on the event stream and keeps serving', async () => {
+    const { code } = await createRoom();
+
+    const res = await fetch(`${base}/rooms/${code}/events?role=helper&name=Lan&token=${encodeURIComponent(WIDE_TOKEN)}`);
+    expect(res.status).toBe(404);
+    expect((await fetch(`${base}/rooms`, { method: 'POST' })).status).toBe(200);
+  });
+
+  it('refuses a wide token on signal', async () => {
+    const { code } = await createRoom();
+
+    const res = await fetch(`${base}/rooms/${code}/signal?token=${encodeURIComponent(WIDE_TOKEN)}`, {
+      method: 'POST',
+      body: JSON.stringify({ from: 'user', type: 'bye' }),
+    });
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Local OSRM-style stand-in for the routing backend, plus a Nominatim-style search.
+ *
+ *   npm run mock:routing            # listens on http://localhost:8788
+ *   MOCK_ROUTING_PORT=9001 npm run mock:routing
+ *
+ * Point the app at it with ROUTING_PROVIDER=osrm, ROUTING_BASE_URL and GEOCODER_URL.
+ * Every search finds a place 150 m north and 120 m east of the viewbox centre
+ * (or of Hoan Kiem Lake), and every route is one leg north or south and one turn.
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_ROUTING_PORT || 8788);
+const DEFAULT_ORIGIN = [105.8524, 21.0287]; // [lon, lat]
+const METERS_PER_DEGREE = 111320;
+const WALKING_SPEED_MPS = 1.2;
+
+const offset = ([lon, lat], north, east) => [
+  lon + east / (METERS_PER_DEGREE * Math.cos(lat * Math.PI / 180)),
+  lat + north / METERS_PER_DEGREE,
+];
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const search = (params) => {
+  const query = (params.get('q') || '').trim();
+  if (!query) return [];
+  const box = (params.get('viewbox') || '').split(',').map(Number);
+  const centre = box.length === 4 && box.every(Number.isFinite)
+    ? [(box[0] + box[2]) / 2, (box[1] + box[3]) / 2]
+    : DEFAULT_ORIGIN;
+  const [lon, lat] = offset(centre, 150, 120);
+  return [{ name: query, display_name: `${query}, Mock City`, lat: String(lat), lon: String(lon) }];
+};
+
+const route = (coordinates) => {
+  const points = coordinates.split(';').map(p => p.split(',').map(Number));
+  if (points.length < 2 || points.some(p => p.length !== 2 || !p.every(Number.isFinite))) {
+    return { code: 'InvalidQuery', message: 'Expected lon,lat;lon,lat' };
+  }
+
+  const [from, to] = points;
+  const corner = [from[0], to[1]];
+  const north = (to[1] - from[1]) * METERS_PER_DEGREE;
+  const east = (to[0] - from[0]) * METERS_PER_DEGREE * Math.cos(from[1] * Math.PI / 180);
+  const first = Math.abs(north);
+  const second = Math.abs(east);
+  const step = (type, modifier, name, location, distance) => ({
+    name,
+    distance,
+    duration: distance / WALKING_SPEED_MPS,
+    maneuver: { type, modifier, location },
+  });
+
+  return {
+    code: 'Ok',
+    routes: [{
+      distance: first + second,
+      duration: (first + second) / WALKING_SPEED_MPS,
+      geometry: { type: 'LineString', coordinates: [from, corner, to] },
+      legs: [{
+        steps: [
+          step('depart', undefined, 'Main Street', from, first),
+          step('turn', (north >= 0) === (east >= 0) ? 'right' : 'left', 'Market Street', corner, second),
+          step('arrive', undefined, '', to, 0),
+        ],
+      }],
+    }],
+  };
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'GET') return send(res, 405, { message: 'Method not allowed' });
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname === '/search') {
+    return send(res, 200, search(url.searchParams));
+  }
+
+  // /route/v1/{profile}/{lon,lat;lon,lat}
+  const match = url.pathname.match(/^\/route\/v1\/[^/]+\/(.+)$/);
+  if (match) {
+    const body = route(decodeURIComponent(match[1]));
+    return send(res, body.code === 'Ok' ? 200 : 400, body);
+  }
+
+  send(res, 404, { message: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`🗺️ Mock routing server listening on http://localhost:${PORT}`);
+});
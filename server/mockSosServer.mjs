@@ -0,0 +1,68 @@
+/**
+ * Local stand-in for the SOS webhook. Prints each message instead of
+ * texting anyone, and saves the camera snapshot of each alert next to it.
+ *
+ *   npm run mock:sos                # listens on http://localhost:8789/sos
+ *   MOCK_SOS_PORT=9002 npm run mock:sos
+ *
+ * Point the app at it with SOS_NOTIFIER=webhook and SOS_WEBHOOK_URL.
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const PORT = Number(process.env.MOCK_SOS_PORT || 8789);
+const SNAPSHOT_DIR = process.env.MOCK_SOS_DIR || path.join(os.tmpdir(), 'sos-snapshots');
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const saveSnapshot = (dataUrl, timestamp) => {
+  const match = /^data:image\/\w+;base64,(.+)$/.exec(dataUrl || '');
+  if (!match) return null;
+  fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+  const file = path.join(SNAPSHOT_DIR, `sos-${String(timestamp).replace(/[:.]/g, '-')}.jpg`);
+  fs.writeFileSync(file, Buffer.from(match[1], 'base64'));
+  return file;
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'POST') return send(res, 405, { message: 'Method not allowed' });
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  if (url.pathname !== '/sos') return send(res, 404, { message: 'Not found' });
+
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) req.destroy();
+  });
+  req.on('end', () => {
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      return send(res, 400, { message: 'Invalid JSON' });
+    }
+
+    const { snapshot, ...rest } = message;
+    const file = saveSnapshot(snapshot, message.timestamp);
+    console.log(`🆘 ${String(message.event).toUpperCase()} (${message.trigger}) for ${(message.contacts || []).join(', ') || 'no contacts'}`);
+    console.log(JSON.stringify({ ...rest, snapshot: file || undefined }, null, 2));
+    send(res, 200, { ok: true });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🆘 Mock SOS server listening on http://localhost:${PORT}/sos`);
+});
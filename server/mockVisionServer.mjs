@@ -0,0 +1,113 @@
+/**
+ * Local OpenAI-compatible stand-in for the vision backend.
+ *
+ *   npm run mock:vision            # listens on http://localhost:8787/v1
+ *   MOCK_VISION_PORT=9000 npm run mock:vision
+ *
+ * Point the app at it with VISION_PROVIDER=openai and VISION_BASE_URL.
+ * Answers are canned or rule-based on the prompt; no model is involved.
+ */
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_VISION_PORT || 8787);
+const LATENCY_MS = Number(process.env.MOCK_VISION_LATENCY_MS || 300);
+
+const NAVIGATION_SCRIPT = [
+  { pathClear: true, hazards: [] },
+  { pathClear: false, hazards: [{ type: "chair", clock: 2, distanceMeters: 2, severity: "medium" }], suggestion: "Bear left." },
+  { pathClear: true, hazards: [{ type: "doorway", clock: 1, distanceMeters: 4, severity: "low" }] },
+  { pathClear: false, hazards: [{ type: "stairs going down", clock: 12, distanceMeters: 0.5, severity: "high" }] },
+];
+
+const DOCUMENT_PAGE = {
+  title: "Corner Cafe",
+  blocks: [
+    { kind: "heading", text: "Corner Cafe" },
+    { kind: "paragraph", text: "Thank you for visiting. Receipt number 1042." },
+    { kind: "price", text: "Coffee 45,000", amount: 45000 },
+    { kind: "price", text: "Croissant 30,000", amount: 30000 },
+    { kind: "price", text: "Total 75,000", amount: 75000, isTotal: true },
+  ],
+};
+
+const BANKNOTE = { currency: "VND", denomination: 50000, side: "front", confidence: 0.92 };
+
+let navigationStep = 0;
+
+// Rough token counts so clients can exercise usage tracking: ~4 characters a token, a flat cost per image
+const tokens = (text) => Math.ceil(text.length / 4);
+const IMAGE_TOKENS = 258;
+
+const promptText = (body) => {
+  const content = body?.messages?.[body.messages.length - 1]?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.filter(p => p.type === 'text').map(p => p.text).join('\n');
+  }
+  return '';
+};
+
+const answer = (prompt) => {
+  if (prompt.includes('Intelligent AI Model Router')) {
+    return /read|document|text|menu|receipt/i.test(prompt) ? 'GEMINI3' : 'FLASH';
+  }
+  if (prompt.includes('guide your friend')) {
+    return JSON.stringify(NAVIGATION_SCRIPT[navigationStep++ % NAVIGATION_SCRIPT.length]);
+  }
+  if (prompt.includes('document reader')) {
+    return JSON.stringify(DOCUMENT_PAGE);
+  }
+  if (prompt.includes('banknote reader')) {
+    return JSON.stringify(BANKNOTE);
+  }
+  return "This is a mock answer from the local vision server.";
+};
+
+const send = (res, status, payload) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && req.url === '/v1/models') {
+    return send(res, 200, { object: 'list', data: [{ id: 'mock-fast' }, { id: 'mock-pro' }] });
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      let body;
+      try { body = JSON.parse(raw); } catch (e) { return send(res, 400, { error: { message: 'Invalid JSON' } }); }
+
+      const prompt = promptText(body);
+      const text = answer(prompt);
+      const content = body?.messages?.[body.messages.length - 1]?.content;
+      const images = Array.isArray(content) ? content.filter(p => p.type === 'image_url').length : 0;
+      setTimeout(() => send(res, 200, {
+        id: `mock-${Date.now()}`,
+        object: 'chat.completion',
+        model: body.model || 'mock-fast',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: text } }],
+        usage: {
+          prompt_tokens: tokens(prompt) + images * IMAGE_TOKENS,
+          completion_tokens: tokens(text),
+        },
+      }), LATENCY_MS);
+    });
+    return;
+  }
+
+  send(res, 404, { error: { message: 'Not found' } });
+});
+
+server.listen(PORT, () => {
+  console.log(`👁️ Mock vision server listening on http://localhost:${PORT}/v1`);
+});
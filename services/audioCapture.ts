@@ -0,0 +1,142 @@
+import { float32ToInt16, rmsLevel } from "./audioUtils";
+
+export interface AudioChunk {
+  pcm: Int16Array;   // 16-bit PCM at the context sample rate
+  rms: number;       // Level of the chunk (0..1), used for voice activity detection
+}
+
+export interface MicCapture {
+  readonly kind: 'worklet' | 'script-processor';
+  stop(): void;
+}
+
+// 100ms chunks at 16kHz
+const CHUNK_SIZE = 1600;
+const FALLBACK_BUFFER_SIZE = 2048;
+
+// Runs on the audio rendering thread: buffers render quanta, converts to
+// Int16 and measures the level, so the main thread only has to encode and send.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.chunkSize;
+    this.buffer = new Float32Array(this.size);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.buffer[this.length++] = input[i];
+      if (this.length === this.size) this.flush();
+    }
+    return true;
+  }
+
+  flush() {
+    const pcm = new Int16Array(this.size);
+    let sum = 0;
+    for (let i = 0; i < this.size; i++) {
+      const s = Math.max(-1, Math.min(1, this.buffer[i]));
+      sum += s * s;
+      pcm[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    this.port.postMessage({ pcm, rms: Math.sqrt(sum / this.size) }, [pcm.buffer]);
+    this.length = 0;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+// The module only needs registering once per AudioContext
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const startWorkletCapture = async (
+  ctx: AudioContext,
+  source: MediaStreamAudioSourceNode,
+  sink: AudioNode,
+  onChunk: (chunk: AudioChunk) => void
+): Promise<MicCapture> => {
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(ctx);
+  }
+
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { chunkSize: CHUNK_SIZE }
+  });
+  node.port.onmessage = (e) => onChunk({ pcm: e.data.pcm, rms: e.data.rms });
+
+  source.connect(node);
+  node.connect(sink);
+
+  return {
+    kind: 'worklet',
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch (e) { }
+      node.disconnect();
+    }
+  };
+};
+
+const startScriptProcessorCapture = (
+  ctx: AudioContext,
+  source: MediaStreamAudioSourceNode,
+  sink: AudioNode,
+  onChunk: (chunk: AudioChunk) => void
+): MicCapture => {
+  const processor = ctx.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (e) => {
+    const input = e.inputBuffer.getChannelData(0);
+    onChunk({ pcm: float32ToInt16(input), rms: rmsLevel(input) });
+  };
+
+  source.connect(processor);
+  processor.connect(sink);
+
+  return {
+    kind: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      try { source.disconnect(processor); } catch (e) { }
+      processor.disconnect();
+    }
+  };
+};
+
+/**
+ * Streams mic audio as PCM chunks. Uses an AudioWorklet when available and
+ * falls back to the deprecated ScriptProcessorNode on older browsers.
+ */
+export const startMicCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: AudioChunk) => void
+): Promise<MicCapture> => {
+  const source = ctx.createMediaStreamSource(stream);
+
+  // Keep the capture node pulled by the graph without playing the mic back
+  const mute = ctx.createGain();
+  mute.gain.value = 0;
+  mute.connect(ctx.destination);
+
+  if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+    try {
+      return await startWorkletCapture(ctx, source, mute, onChunk);
+    } catch (e) {
+      console.warn("🎙️ AudioWorklet unavailable, falling back to ScriptProcessor:", e);
+    }
+  }
+  return startScriptProcessorCapture(ctx, source, mute, onChunk);
+};
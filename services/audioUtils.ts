@@ -1,3 +1,11 @@
+/**
+ * Creates an AudioContext, with the webkit prefix fallback for older Safari.
+ */
+export function createAudioContext(sampleRate?: number): AudioContext {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  return new AudioContextClass(sampleRate ? { sampleRate } : undefined);
+}
+
 
 /**
  * Converts a base64 string to a Uint8Array.
@@ -39,10 +47,9 @@ export async function decodeAudioData(
 }
 
 /**
- * Converts Browser Audio (Float32) to PCM Int16 Base64 (for Gemini Input).
- * Gemini Live Input: 16kHz, 1 channel, PCM Int16 Little Endian.
+ * Converts Browser Audio (Float32) to PCM Int16.
  */
-export function float32ToB64PCM(float32Array: Float32Array): string {
+export function float32ToInt16(float32Array: Float32Array): Int16Array {
   const int16Array = new Int16Array(float32Array.length);
   const len = float32Array.length;
 
@@ -52,9 +59,15 @@ export function float32ToB64PCM(float32Array: Float32Array): string {
     // Convert to 16-bit integer
     int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16Array;
+}
 
+/**
+ * Converts PCM Int16 to Base64 (for Gemini Input).
+ */
+export function int16ToB64PCM(int16Array: Int16Array): string {
   // Convert Int16Array buffer to binary string
-  const bytes = new Uint8Array(int16Array.buffer);
+  const bytes = new Uint8Array(int16Array.buffer, int16Array.byteOffset, int16Array.byteLength);
   let binary = '';
   const bytesLen = bytes.byteLength;
   for (let i = 0; i < bytesLen; i++) {
@@ -63,3 +76,22 @@ export function float32ToB64PCM(float32Array: Float32Array): string {
   
   return btoa(binary);
 }
+
+/**
+ * Converts Browser Audio (Float32) to PCM Int16 Base64 (for Gemini Input).
+ * Gemini Live Input: 16kHz, 1 channel, PCM Int16 Little Endian.
+ */
+export function float32ToB64PCM(float32Array: Float32Array): string {
+  return int16ToB64PCM(float32ToInt16(float32Array));
+}
+
+/**
+ * Root mean square level of a Float32 buffer (0..1).
+ */
+export function rmsLevel(float32Array: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < float32Array.length; i++) {
+    sum += float32Array[i] * float32Array[i];
+  }
+  return float32Array.length ? Math.sqrt(sum / float32Array.length) : 0;
+}
@@ -0,0 +1,220 @@
+import { StringKey, t } from "./i18n";
+import { computeFrameSignature, frameDifference } from "./frameChangeDetector";
+
+// Analysis resolution: enough to see text strokes, cheap enough to run a few times a second
+const WIDTH = 160;
+const HEIGHT = 120;
+// Coarse grid used to find where the text is
+const GRID_COLS = 16;
+const GRID_ROWS = 12;
+
+const TOO_DARK = 55;               // Mean luminance 0..255
+const TOO_BRIGHT = 215;
+const GLARE_FRACTION = 0.35;       // Share of blown-out pixels
+const MIN_SHARPNESS = 100;         // Variance of the Laplacian
+const MIN_TEXT_CELL_EDGE = 18;     // Mean edge strength for a grid cell to count as text
+const MIN_TEXT_CELLS = 6;
+const MIN_COVERAGE = 0.25;         // Text box as a share of the frame; less means too far away
+const MAX_MOTION = 0.05;           // Frame difference between samples that still counts as steady
+
+export type CaptureIssue =
+  | 'tooDark'
+  | 'tooBright'
+  | 'blurry'
+  | 'moving'
+  | 'noText'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveCloser';
+
+export interface CaptureAssessment {
+  issue: CaptureIssue | null;   // Most important problem, null if the frame is good
+  brightness: number;
+  sharpness: number;
+  coverage: number;             // 0..1, share of the frame the text occupies
+}
+
+const HINTS: Record<CaptureIssue, StringKey> = {
+  tooDark: 'hintTooDark',
+  tooBright: 'hintTooBright',
+  blurry: 'hintHoldStill',
+  moving: 'hintHoldStill',
+  noText: 'hintNoText',
+  moveLeft: 'hintMoveLeft',
+  moveRight: 'hintMoveRight',
+  moveUp: 'hintMoveUp',
+  moveDown: 'hintMoveDown',
+  moveCloser: 'hintMoveCloser',
+};
+
+/**
+ * Spoken framing hint for an issue.
+ */
+export const captureHint = (issue: CaptureIssue): string => t(HINTS[issue]);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const toGray = async (dataUrl: string): Promise<Uint8Array> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.drawImage(img, 0, 0, WIDTH, HEIGHT);
+  const { data } = ctx.getImageData(0, 0, WIDTH, HEIGHT);
+  const gray = new Uint8Array(WIDTH * HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = (data[o] * 299 + data[o + 1] * 587 + data[o + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+/**
+ * Exposure, sharpness and text framing of a grayscale image.
+ * `requireText` adds the document checks (is there text, is it cut off, is it too small).
+ */
+export const assessGray = (gray: Uint8Array, width: number, height: number, requireText: boolean): CaptureAssessment => {
+  let sum = 0;
+  let blown = 0;
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i];
+    if (gray[i] > 250) blown++;
+  }
+  const brightness = sum / gray.length;
+
+  // Laplacian variance (sharpness) and gradient magnitude per grid cell (text location)
+  const cellW = width / GRID_COLS;
+  const cellH = height / GRID_ROWS;
+  const cellEdge = new Float64Array(GRID_COLS * GRID_ROWS);
+  const cellCount = new Float64Array(GRID_COLS * GRID_ROWS);
+  let lapSum = 0;
+  let lapSq = 0;
+  let n = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      lapSum += lap;
+      lapSq += lap * lap;
+      n++;
+
+      const gx = gray[i + 1] - gray[i - 1];
+      const gy = gray[i + width] - gray[i - width];
+      const cell = Math.floor(y / cellH) * GRID_COLS + Math.floor(x / cellW);
+      cellEdge[cell] += Math.abs(gx) + Math.abs(gy);
+      cellCount[cell]++;
+    }
+  }
+  const mean = lapSum / n;
+  const sharpness = lapSq / n - mean * mean;
+
+  // Bounding box of the grid cells with enough edges to look like text
+  let minC = GRID_COLS, maxC = -1, minR = GRID_ROWS, maxR = -1, textCells = 0;
+  for (let r = 0; r < GRID_ROWS; r++) {
+    for (let c = 0; c < GRID_COLS; c++) {
+      const cell = r * GRID_COLS + c;
+      if (cellCount[cell] === 0 || cellEdge[cell] / cellCount[cell] < MIN_TEXT_CELL_EDGE) continue;
+      textCells++;
+      minC = Math.min(minC, c); maxC = Math.max(maxC, c);
+      minR = Math.min(minR, r); maxR = Math.max(maxR, r);
+    }
+  }
+  const coverage = textCells >= MIN_TEXT_CELLS
+    ? ((maxC - minC + 1) * (maxR - minR + 1)) / (GRID_COLS * GRID_ROWS)
+    : 0;
+
+  let issue: CaptureIssue | null = null;
+  if (brightness < TOO_DARK) issue = 'tooDark';
+  else if (brightness > TOO_BRIGHT || blown / gray.length > GLARE_FRACTION) issue = 'tooBright';
+  else if (requireText && textCells < MIN_TEXT_CELLS) issue = 'noText';
+  // A plain wall has no detail to be sharp; only judge blur when there is something to see
+  else if (textCells > 0 && sharpness < MIN_SHARPNESS) issue = 'blurry';
+  else if (requireText) {
+    // Text running into one edge (but not the opposite one) is cut off on that side
+    if (minC === 0 && maxC < GRID_COLS - 1) issue = 'moveLeft';
+    else if (maxC === GRID_COLS - 1 && minC > 0) issue = 'moveRight';
+    else if (minR === 0 && maxR < GRID_ROWS - 1) issue = 'moveUp';
+    else if (maxR === GRID_ROWS - 1 && minR > 0) issue = 'moveDown';
+    else if (coverage < MIN_COVERAGE) issue = 'moveCloser';
+  }
+
+  return { issue, brightness, sharpness, coverage };
+};
+
+interface CaptureCoachOptions {
+  requireText?: boolean;     // Reading: also check that a page is in view and framed
+  timeoutMs?: number;        // Give up after this long
+  intervalMs?: number;       // Time between samples
+  hintRepeatMs?: number;     // Repeat the same hint at most this often
+  onHint?: (issue: CaptureIssue) => void;
+}
+
+/**
+ * Samples the camera until a frame is good enough to read, coaching the user
+ * in between, and returns that frame. Two steady good frames in a row trigger
+ * the capture. Resolves null on timeout or cancel.
+ */
+export class CaptureCoach {
+  private cancelled = false;
+
+  constructor(private grabFrame: () => string | null, private options: CaptureCoachOptions = {}) { }
+
+  cancel() {
+    this.cancelled = true;
+  }
+
+  async capture(): Promise<string | null> {
+    const { requireText = false, timeoutMs = 15000, intervalMs = 400, hintRepeatMs = 3500, onHint } = this.options;
+    const deadline = Date.now() + timeoutMs;
+
+    let previousSignature: Uint8Array | null = null;
+    let goodStreak = 0;
+    let lastIssue: CaptureIssue | null = null;
+    let lastHintAt = 0;
+
+    while (!this.cancelled && Date.now() < deadline) {
+      const frame = this.grabFrame();
+      if (frame) {
+        try {
+          const [gray, signature] = await Promise.all([toGray(frame), computeFrameSignature(frame)]);
+          let { issue } = assessGray(gray, WIDTH, HEIGHT, requireText);
+
+          if (!issue && previousSignature && frameDifference(previousSignature, signature) > MAX_MOTION) {
+            issue = 'moving';
+          }
+          previousSignature = signature;
+
+          if (!issue) {
+            goodStreak++;
+            if (goodStreak >= 2) return frame;
+          } else {
+            goodStreak = 0;
+            const now = Date.now();
+            if (issue !== lastIssue || now - lastHintAt >= hintRepeatMs) {
+              console.log("📐 Capture hint:", issue);
+              onHint?.(issue);
+              lastIssue = issue;
+              lastHintAt = now;
+            }
+          }
+        } catch (e) {
+          console.warn("📐 Could not assess frame:", e);
+        }
+      }
+      await new Promise(r => setTimeout(r, intervalMs));
+    }
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+import { DocumentBlock, DocumentBlockKind, ReadingDocument } from "../types";
+import { t } from "./i18n";
+
+// Longer text is cut when spelling; nobody wants a paragraph spelled out
+const SPELL_MAX_CHARS = 60;
+
+const BLOCK_KINDS: DocumentBlockKind[] = ['heading', 'paragraph', 'list', 'table', 'price'];
+
+/**
+ * JSON contract the document prompt asks the model to follow.
+ */
+export const DOCUMENT_JSON_SCHEMA = `{
+  "title": string,
+  "blocks": [
+    { "kind": "heading" | "paragraph" | "list" | "table" | "price",
+      "text": string,
+      "rows": string[][],
+      "amount": number,
+      "isTotal": boolean }
+  ]
+}`;
+
+const tableToText = (rows: string[][]): string =>
+  rows
+    .map(row => row.map(cell => cell.trim()).filter(Boolean).join(', '))
+    .filter(Boolean)
+    .join('. ');
+
+/**
+ * Parses one scanned page. Returns null if the text is not valid document JSON.
+ */
+export const parseDocumentPage = (raw: string, page: number): { title?: string; blocks: DocumentBlock[] } | null => {
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (!data || !Array.isArray(data.blocks)) return null;
+
+  const blocks: DocumentBlock[] = data.blocks
+    .filter((b: any) => b && typeof b === 'object')
+    .map((b: any): DocumentBlock | null => {
+      const kind: DocumentBlockKind = BLOCK_KINDS.includes(b.kind) ? b.kind : 'paragraph';
+      const rows: string[][] | undefined = kind === 'table' && Array.isArray(b.rows)
+        ? b.rows.filter(Array.isArray).map((row: any[]) => row.map(cell => String(cell ?? '')))
+        : undefined;
+      const text = typeof b.text === 'string' && b.text.trim() ? b.text.trim() : (rows ? tableToText(rows) : '');
+      if (!text) return null;
+
+      const amount = Number(b.amount);
+      return {
+        kind,
+        text,
+        page,
+        ...(rows ? { rows } : {}),
+        ...(kind === 'price' && Number.isFinite(amount) ? { amount } : {}),
+        ...(kind === 'price' && b.isTotal === true ? { isTotal: true } : {}),
+      };
+    })
+    .filter((b: DocumentBlock | null): b is DocumentBlock => b !== null);
+
+  const title = typeof data.title === 'string' && data.title.trim() ? data.title.trim() : undefined;
+  return { title, blocks };
+};
+
+export const createDocument = (): ReadingDocument => {
+  const now = new Date();
+  return {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    pageCount: 0,
+    blocks: [],
+    position: 0,
+  };
+};
+
+/**
+ * Adds a scanned page and moves the reading position to its first block.
+ */
+export const appendPage = (doc: ReadingDocument, page: { title?: string; blocks: DocumentBlock[] }): ReadingDocument => ({
+  ...doc,
+  title: doc.title || page.title || page.blocks.find(b => b.kind === 'heading')?.text || '',
+  pageCount: doc.pageCount + 1,
+  blocks: [...doc.blocks, ...page.blocks],
+  position: page.blocks.length > 0 ? doc.blocks.length : doc.position,
+  updatedAt: new Date(),
+});
+
+/**
+ * Index of the first block on a page, or -1 if the page has no blocks.
+ */
+export const pageStartIndex = (doc: ReadingDocument, page: number): number =>
+  doc.blocks.findIndex(b => b.page === page);
+
+/**
+ * The total on a receipt or bill: a line marked as total, else the last price line.
+ */
+export const findTotal = (doc: ReadingDocument): DocumentBlock | null => {
+  const prices = doc.blocks.filter(b => b.kind === 'price');
+  return [...prices].reverse().find(b => b.isTotal) || prices[prices.length - 1] || null;
+};
+
+/**
+ * What is said for a block. Headings are announced as such so structure is audible.
+ */
+export const blockSpeech = (block: DocumentBlock): string =>
+  block.kind === 'heading' ? t('docHeading', { text: block.text }) : block.text;
+
+/**
+ * Letter by letter, with spaces named, e.g. "A, B, space, 1, 2".
+ */
+export const spellOut = (text: string): string =>
+  Array.from(text.trim().replace(/\s+/g, ' ').slice(0, SPELL_MAX_CHARS))
+    .map(ch => (/\s/.test(ch) ? t('spellSpace') : ch.toUpperCase()))
+    .join(', ');
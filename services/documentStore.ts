@@ -0,0 +1,44 @@
+import { ReadingDocument } from "../types";
+import { openDB, promisify, STORES } from "./localDb";
+
+const STORE = STORES.documents;
+// Older documents are pruned beyond this many
+const MAX_DOCUMENTS = 20;
+
+/**
+ * Saves (or updates) a document, including its reading position.
+ */
+export const saveDocument = async (doc: ReadingDocument): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(doc));
+
+  const count = await promisify(store.count());
+  if (count > MAX_DOCUMENTS) {
+    let toDelete = count - MAX_DOCUMENTS;
+    const cursorRequest = store.index('updatedAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor && toDelete > 0) {
+        cursor.delete();
+        toDelete--;
+        cursor.continue();
+      }
+    };
+  }
+};
+
+/**
+ * The document read most recently, to resume where the user left off.
+ */
+export const getLatestDocument = async (): Promise<ReadingDocument | null> => {
+  const db = await openDB();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const cursor = await promisify(store.index('updatedAt').openCursor(null, 'prev'));
+  return cursor ? cursor.value as ReadingDocument : null;
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+};
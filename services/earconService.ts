@@ -0,0 +1,113 @@
+import { Hazard, NavigationGuidance } from "../types";
+import { createAudioContext } from "./audioUtils";
+import { getPreferences } from "./preferences";
+
+// Distance range mapped onto pitch and repetition
+const NEAR_METERS = 0.5;
+const FAR_METERS = 8;
+const NEAR_HZ = 1200;
+const FAR_HZ = 400;
+
+const TONE_MS = 90;
+const GAP_MS = 70;
+// Pause between the earcons of two hazards
+const HAZARD_GAP_MS = 250;
+const VOLUME = 0.35;
+
+// Only the most urgent hazards get an earcon, like the spoken sentence
+const MAX_EARCON_HAZARDS = 2;
+
+/**
+ * Stereo position for a clock direction: 12 = centre, 3 = full right, 9 = full left.
+ * Hazards behind (4-8 o'clock) fold back toward the side they are on.
+ */
+export const clockToPan = (clock: number): number => {
+  const angle = ((clock % 12) / 12) * 2 * Math.PI;
+  return Math.max(-1, Math.min(1, Math.sin(angle)));
+};
+
+/**
+ * 0 when the hazard is right here, 1 when it is far away.
+ */
+const distanceRatio = (meters: number): number =>
+  Math.max(0, Math.min(1, (meters - NEAR_METERS) / (FAR_METERS - NEAR_METERS)));
+
+let audioContext: AudioContext | null = null;
+
+const getContext = async (): Promise<AudioContext> => {
+  if (!audioContext || audioContext.state === 'closed') {
+    audioContext = createAudioContext();
+  }
+  // Resume immediately (browser policy)
+  if (audioContext.state === 'suspended') {
+    await audioContext.resume();
+  }
+  return audioContext;
+};
+
+const scheduleTone = (ctx: AudioContext, startAt: number, frequency: number, pan: number, type: OscillatorType) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const panner = ctx.createStereoPanner();
+
+  osc.type = type;
+  osc.frequency.value = frequency;
+  panner.pan.value = pan;
+
+  // Short attack/release so tones do not click
+  const end = startAt + TONE_MS / 1000;
+  gain.gain.setValueAtTime(0, startAt);
+  gain.gain.linearRampToValueAtTime(VOLUME, startAt + 0.01);
+  gain.gain.setValueAtTime(VOLUME, end - 0.02);
+  gain.gain.linearRampToValueAtTime(0, end);
+
+  osc.connect(gain).connect(panner).connect(ctx.destination);
+  osc.start(startAt);
+  osc.stop(end);
+};
+
+/**
+ * Schedules one hazard earcon: panned to its bearing, higher and more
+ * repeated the closer it is. Returns when the earcon ends (context time).
+ */
+const scheduleHazard = (ctx: AudioContext, startAt: number, hazard: Hazard): number => {
+  const ratio = distanceRatio(hazard.distanceMeters);
+  const frequency = NEAR_HZ - (NEAR_HZ - FAR_HZ) * ratio;
+  const repeats = hazard.severity === 'high' ? 4 : Math.max(1, Math.round(3 - ratio * 2));
+  const type: OscillatorType = hazard.severity === 'high' ? 'square' : 'sine';
+  const pan = clockToPan(hazard.clock);
+
+  let t = startAt;
+  for (let i = 0; i < repeats; i++) {
+    scheduleTone(ctx, t, frequency, pan, type);
+    t += (TONE_MS + GAP_MS) / 1000;
+  }
+  return t;
+};
+
+export const earconsEnabled = (): boolean => getPreferences().earcons !== 'off';
+
+/**
+ * Plays spatial earcons for the guidance: one per urgent hazard, or a soft
+ * centred tone when the path is clear.
+ */
+export const playGuidanceEarcons = async (guidance: NavigationGuidance) => {
+  if (!earconsEnabled()) return;
+
+  try {
+    const ctx = await getContext();
+    let t = ctx.currentTime + 0.02;
+
+    const hazards = guidance.hazards.filter(h => h.severity !== 'low').slice(0, MAX_EARCON_HAZARDS);
+    if (hazards.length === 0) {
+      if (guidance.pathClear) scheduleTone(ctx, t, FAR_HZ, 0, 'sine');
+      return;
+    }
+
+    hazards.forEach(hazard => {
+      t = scheduleHazard(ctx, t, hazard) + HAZARD_GAP_MS / 1000;
+    });
+  } catch (e) {
+    console.warn("🔈 Earcon playback failed:", e);
+  }
+};
@@ -0,0 +1,132 @@
+import { GeoLocation } from "../types";
+import { getSosContacts, getSosNotifier, mapsLink, SosEvent, SosMessage, SosTrigger } from "./sosNotifier";
+import { getLocale } from "./i18n";
+
+// Seconds to cancel before contacts are alerted. A fall may have been a dropped
+// phone, and someone who just fell needs longer to answer than someone who asked.
+const COUNTDOWN_SECONDS: Record<SosTrigger, number> = {
+  voice: 5,
+  gesture: 5,
+  fall: 20,
+};
+// While active, the location is sent again this often
+const LOCATION_REPEAT_MS = 60000;
+
+export type SosState = 'idle' | 'countdown' | 'active';
+
+interface EmergencySosOptions {
+  getLocation: () => GeoLocation | null;
+  getSnapshot: () => string | null;          // Camera frame as a data URL
+  getLastGuidance: () => string | undefined;
+  onStateChange: (state: SosState, trigger: SosTrigger, seconds: number) => void;
+  onCountdown: (secondsLeft: number) => void;
+  onSent: (event: SosEvent, ok: boolean) => void;
+}
+
+/**
+ * Emergency call for help: a short spoken countdown the user can cancel,
+ * then an alert to the emergency contacts with location, a camera snapshot and
+ * the last guidance, then the location again every minute until the user is safe.
+ */
+export class EmergencySos {
+  private state: SosState = 'idle';
+  private trigger: SosTrigger = 'voice';
+  private countdownTimer: ReturnType<typeof setInterval> | null = null;
+  private repeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private options: EmergencySosOptions) { }
+
+  get current(): SosState {
+    return this.state;
+  }
+
+  /**
+   * Starts the countdown. Asking again while it runs sends the alert right away.
+   */
+  start(trigger: SosTrigger) {
+    if (this.state === 'active') return;
+    if (this.state === 'countdown') {
+      this.activate();
+      return;
+    }
+
+    const seconds = COUNTDOWN_SECONDS[trigger];
+    this.trigger = trigger;
+    this.setState('countdown', seconds);
+
+    let left = seconds;
+    this.countdownTimer = setInterval(() => {
+      left--;
+      if (left <= 0) {
+        this.activate();
+      } else {
+        this.options.onCountdown(left);
+      }
+    }, 1000);
+  }
+
+  /**
+   * The user is safe: stops the countdown, or tells contacts that all is well.
+   * Returns the state it was in.
+   */
+  cancel(): SosState {
+    const previous = this.state;
+    if (previous === 'idle') return previous;
+
+    this.clearTimers();
+    if (previous === 'active') this.send('resolved');
+    this.setState('idle', 0);
+    return previous;
+  }
+
+  dispose() {
+    this.clearTimers();
+    this.state = 'idle';
+  }
+
+  private activate() {
+    this.clearTimers();
+    this.setState('active', 0);
+
+    this.send('alert');
+    this.repeatTimer = setInterval(() => this.send('location'), LOCATION_REPEAT_MS);
+  }
+
+  private setState(state: SosState, seconds: number) {
+    this.state = state;
+    this.options.onStateChange(state, this.trigger, seconds);
+  }
+
+  private clearTimers() {
+    if (this.countdownTimer) clearInterval(this.countdownTimer);
+    if (this.repeatTimer) clearInterval(this.repeatTimer);
+    this.countdownTimer = null;
+    this.repeatTimer = null;
+  }
+
+  private async send(event: SosEvent) {
+    const location = this.options.getLocation();
+    const message: SosMessage = {
+      event,
+      trigger: this.trigger,
+      contacts: getSosContacts(),
+      timestamp: new Date().toISOString(),
+      location,
+      mapsUrl: location ? mapsLink(location) : null,
+      language: getLocale(),
+    };
+    // The picture and context matter once; later messages only track movement
+    if (event === 'alert') {
+      message.snapshot = this.options.getSnapshot() || undefined;
+      message.lastGuidance = this.options.getLastGuidance();
+    }
+
+    try {
+      await getSosNotifier().send(message);
+      this.options.onSent(event, true);
+    } catch (e) {
+      console.error(`🆘 Could not send SOS ${event}:`, e);
+      this.options.onSent(event, false);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FallDetector } from './fallDetector';
+
+const GRAVITY = 9.81;
+// DeviceMotion on phones fires at roughly 50 Hz
+const SAMPLE_MS = 20;
+
+/**
+ * Feeds `durationMs` of a constant magnitude, starting at `from`. Returns the time after the last sample.
+ */
+const feed = (detector: FallDetector, magnitude: number, from: number, durationMs: number): number => {
+  let now = from;
+  for (; now < from + durationMs; now += SAMPLE_MS) detector.process(magnitude, now);
+  return now;
+};
+
+describe('FallDetector', () => {
+  it('reports free fall, impact, then lying still', () => {
+    const onFall = vi.fn();
+    const detector = new FallDetector(onFall);
+
+    let now = feed(detector, GRAVITY, 0, 1000);
+    now = feed(detector, 1, now, 300);           // Free fall
+    now = feed(detector, 30, now, 40);           // Impact
+    now = feed(detector, 15, now, 400);          // Bouncing, ignored while settling
+    expect(onFall).not.toHaveBeenCalled();
+
+    feed(detector, GRAVITY, now, 3500);          // Lying still
+    expect(onFall).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a free fall too short to be a fall', () => {
+    const onFall = vi.fn();
+    const detector = new FallDetector(onFall);
+
+    let now = feed(detector, 1, 0, 40);
+    now = feed(detector, 30, now, 40);
+    feed(detector, GRAVITY, now, 5000);
+    expect(onFall).not.toHaveBeenCalled();
+  });
+
+  it('ignores a free fall with no impact, like a phone tossed onto a sofa', () => {
+    const onFall = vi.fn();
+    const detector = new FallDetector(onFall);
+
+    let now = feed(detector, 1, 0, 300);
+    now = feed(detector, 15, now, 1200);
+    feed(detector, GRAVITY, now, 5000);
+    expect(onFall).not.toHaveBeenCalled();
+  });
+
+  it('does not report a fall when the user gets up and walks away', () => {
+    const onFall = vi.fn();
+    const detector = new FallDetector(onFall);
+
+    let now = feed(detector, 1, 0, 300);
+    now = feed(detector, 30, now, 40);
+    // Walking: alternating footfall peaks, never still for long
+    for (const end = now + 9000; now < end; now += SAMPLE_MS) {
+      detector.process(Math.floor(now / 250) % 2 ? 14 : 6, now);
+    }
+    feed(detector, GRAVITY, now, 5000);
+    expect(onFall).not.toHaveBeenCalled();
+  });
+
+  it('detects a second fall after the first', () => {
+    const onFall = vi.fn();
+    const detector = new FallDetector(onFall);
+
+    let now = 0;
+    for (let i = 0; i < 2; i++) {
+      now = feed(detector, 1, now, 300);
+      now = feed(detector, 30, now, 40);
+      now = feed(detector, GRAVITY, now, 3500);
+    }
+    expect(onFall).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,96 @@
+import { requestMotionPermission } from "./motionSensor";
+
+const GRAVITY = 9.81;
+// Free fall: total acceleration well below 1 g for a moment
+const FREE_FALL_THRESHOLD = 3.5;
+const MIN_FREE_FALL_MS = 80;
+// Then a hard impact shortly after
+const IMPACT_THRESHOLD = 24;
+const IMPACT_WINDOW_MS = 1000;
+// Bouncing and settling right after the impact is ignored
+const SETTLE_MS = 500;
+// Then lying still; getting up and walking away within the timeout is not a fall
+const STILL_TOLERANCE = 2;
+const STILL_MS = 2500;
+const STILL_TIMEOUT_MS = 8000;
+
+type Phase = 'idle' | 'falling' | 'impact';
+
+/**
+ * Recognises a fall from DeviceMotion: free fall, an impact, then lying still.
+ * Silently does nothing on devices without motion sensors.
+ */
+export class FallDetector {
+  private phase: Phase = 'idle';
+  private freeFallStart = 0;
+  private phaseStart = 0;
+  private stillSince = 0;
+  private listening = false;
+
+  constructor(private onFall: () => void) { }
+
+  private handleMotion = (event: DeviceMotionEvent) => {
+    const a = event.accelerationIncludingGravity;
+    if (!a || a.x === null || a.y === null || a.z === null) return;
+    this.process(Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z), Date.now());
+  };
+
+  /**
+   * Feeds one acceleration magnitude (m/s², gravity included).
+   */
+  public process(magnitude: number, now: number) {
+    switch (this.phase) {
+      case 'idle':
+        if (magnitude >= FREE_FALL_THRESHOLD) {
+          this.freeFallStart = 0;
+        } else if (!this.freeFallStart) {
+          this.freeFallStart = now;
+        } else if (now - this.freeFallStart >= MIN_FREE_FALL_MS) {
+          this.enter('falling', now);
+        }
+        break;
+
+      case 'falling':
+        if (magnitude >= IMPACT_THRESHOLD) {
+          this.enter('impact', now);
+        } else if (now - this.phaseStart > IMPACT_WINDOW_MS) {
+          this.enter('idle', now);
+        }
+        break;
+
+      case 'impact':
+        if (now - this.phaseStart < SETTLE_MS) break;
+        if (Math.abs(magnitude - GRAVITY) > STILL_TOLERANCE) {
+          this.stillSince = 0;
+        } else if (!this.stillSince) {
+          this.stillSince = now;
+        } else if (now - this.stillSince >= STILL_MS) {
+          this.enter('idle', now);
+          this.onFall();
+          break;
+        }
+        if (now - this.phaseStart > STILL_TIMEOUT_MS) this.enter('idle', now);
+        break;
+    }
+  }
+
+  private enter(phase: Phase, now: number) {
+    this.phase = phase;
+    this.phaseStart = now;
+    this.freeFallStart = 0;
+    this.stillSince = 0;
+  }
+
+  public async start() {
+    if (this.listening || !(await requestMotionPermission())) return;
+    window.addEventListener('devicemotion', this.handleMotion);
+    this.listening = true;
+  }
+
+  public stop() {
+    if (!this.listening) return;
+    window.removeEventListener('devicemotion', this.handleMotion);
+    this.listening = false;
+    this.enter('idle', 0);
+  }
+}
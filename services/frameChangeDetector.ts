@@ -0,0 +1,92 @@
+// Frames are compared as tiny grayscale thumbnails: cheap, and robust to sensor noise
+const THUMB_WIDTH = 32;
+const THUMB_HEIGHT = 24;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+/**
+ * Downscales a screenshot (data URL) to a grayscale thumbnail.
+ */
+export const computeFrameSignature = async (dataUrl: string): Promise<Uint8Array> => {
+  const img = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMB_WIDTH;
+  canvas.height = THUMB_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  ctx.drawImage(img, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+
+  const gray = new Uint8Array(THUMB_WIDTH * THUMB_HEIGHT);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = (data[o] * 299 + data[o + 1] * 587 + data[o + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+/**
+ * Mean absolute pixel difference between two signatures, normalised to 0..1.
+ */
+export const frameDifference = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length) return 1;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / (a.length * 255);
+};
+
+interface FrameChangeDetectorOptions {
+  threshold?: number;   // Minimum difference (0..1) that counts as a change
+  maxSkipMs?: number;   // Force an analysis after this long, even on a static scene
+}
+
+/**
+ * Decides whether a new camera frame differs enough from the last
+ * analysed frame to be worth sending to the model.
+ */
+export class FrameChangeDetector {
+  private lastSignature: Uint8Array | null = null;
+  private lastAcceptedAt = 0;
+  private threshold: number;
+  private maxSkipMs: number;
+
+  constructor(options: FrameChangeDetectorOptions = {}) {
+    this.threshold = options.threshold ?? 0.06;
+    this.maxSkipMs = options.maxSkipMs ?? 10000;
+  }
+
+  public async hasChanged(dataUrl: string, now: number = Date.now()): Promise<boolean> {
+    let signature: Uint8Array;
+    try {
+      signature = await computeFrameSignature(dataUrl);
+    } catch (e) {
+      // If we cannot compare, never block analysis
+      return true;
+    }
+
+    const stale = now - this.lastAcceptedAt >= this.maxSkipMs;
+    const changed = !this.lastSignature || frameDifference(signature, this.lastSignature) >= this.threshold;
+
+    if (changed || stale) {
+      // Only accepted frames become the new reference, so slow drift still adds up
+      this.lastSignature = signature;
+      this.lastAcceptedAt = now;
+      return true;
+    }
+    return false;
+  }
+
+  public reset() {
+    this.lastSignature = null;
+    this.lastAcceptedAt = 0;
+  }
+}
@@ -1,16 +1,44 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeoLocation } from "../types";
+import { BanknoteReading, DocumentBlock, GeoLocation, NavigationGuidance } from "../types";
+import { getVisionProvider, ModelTier, toRawBase64 } from "./visionProvider";
+import { CallInfo, callModel, withFailover } from "./modelCall";
+import { hasCapability } from "./modelRegistry";
+import { guidanceFromText, NAVIGATION_JSON_SCHEMA, parseNavigationGuidance } from "./navigationGuidance";
+import { DOCUMENT_JSON_SCHEMA, parseDocumentPage } from "./documentReader";
+import { BANKNOTE_JSON_SCHEMA, banknoteSpeech, MIN_BANKNOTE_CONFIDENCE, parseBanknote } from "./moneyCounter";
+import { getLocaleInfo, Locale, responseLanguageRule, t } from "./i18n";
+import { stylePromptRules } from "./preferences";
+import { containsPhrase } from "./textMatch";
 
-// Lazy initialization
-let aiInstance: GoogleGenAI | null = null;
+/**
+ * Keywords that pick a prompt template, per language, matched as whole words.
+ * Queries are matched against English and the user's own language.
+ * "price" marks questions about what something costs, which are not about banknotes.
+ */
+const QUERY_KEYWORDS: Record<Locale, { money: string[]; price: string[]; reading: string[]; navigation: string[]; identify: string[]; location: string[] }> = {
+  'en-US': {
+    money: ['money', 'banknote', 'bank note', 'cash', 'dollar', 'dong', 'currency', 'what note', 'which note', 'this note'],
+    price: ['cost', 'price', 'pay', 'expensive', 'cheap'],
+    reading: ['read', 'text', 'sign', 'book'],
+    navigation: ['go', 'walk', 'way', 'direction', 'where'],
+    identify: ['what', 'identify', 'look', 'see'],
+    location: ['where', 'location'],
+  },
+  'vi-VN': {
+    money: ['tiền', 'mệnh giá', 'tờ bạc', 'tờ này'],
+    price: ['giá', 'đắt', 'rẻ', 'trả'],
+    reading: ['đọc', 'chữ', 'văn bản', 'biển', 'sách'],
+    navigation: ['đi', 'đường', 'hướng', 'ở đâu'],
+    identify: ['gì', 'nhận diện', 'nhìn', 'thấy'],
+    location: ['ở đâu', 'vị trí'],
+  },
+};
 
-const getAI = () => {
-  if (!aiInstance) {
-    const apiKey = process.env.API_KEY || "";
-    if (!apiKey) console.warn("API_KEY is missing");
-    aiInstance = new GoogleGenAI({ apiKey });
-  }
-  return aiInstance;
+const matchesAny = (query: string, group: keyof typeof QUERY_KEYWORDS['en-US']): boolean => {
+  const { code } = getLocaleInfo();
+  const words = code === 'en-US'
+    ? QUERY_KEYWORDS['en-US'][group]
+    : [...QUERY_KEYWORDS['en-US'][group], ...QUERY_KEYWORDS[code][group]];
+  return words.some(k => containsPhrase(query, k));
 };
 
 const cleanTextForSpeech = (text: string): string => {
@@ -23,53 +51,9 @@ const cleanTextForSpeech = (text: string): string => {
 };
 
 /**
- * ENHANCED DECISION ENGINE: Uses Flash to intelligently route the query.
- * Returns 'gemini-3-pro-preview' (Gemini 3) for complex tasks, 'gemini-2.5-flash' for simple ones.
- */
-export const selectBestModelForQuery = async (query: string): Promise<'gemini-3-pro-preview' | 'gemini-2.5-flash'> => {
-  try {
-    const ai = getAI();
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [{
-          text: `Task: Intelligent AI Model Router.
-Query: "${query}"
-Output: "GEMINI3" (Complex/Reading/Reasoning) or "FLASH" (Simple/Vision/Speed).
-Only output the word.`
-        }]
-      },
-      config: { temperature: 0.1, maxOutputTokens: 10 }
-    });
-
-    const decision = response.text?.trim().toUpperCase();
-
-    if (decision?.includes("GEMINI3") || decision?.includes("PRO")) {
-      return 'gemini-3-pro-preview';
-    } else if (decision?.includes("FLASH")) {
-      return 'gemini-2.5-flash';
-    } else {
-      return analyzeQueryComplexity(query);
-    }
-  } catch (e) {
-    console.error("Model selection error:", e);
-    return analyzeQueryComplexity(query);
-  }
-};
-
-/**
- * Fallback complexity analyzer
+ * Whether the user is asking to read text, so the frame must show it framed and legible.
  */
-const analyzeQueryComplexity = (query: string): 'gemini-3-pro-preview' | 'gemini-2.5-flash' => {
-  const lowerQuery = query.toLowerCase();
-  const complexKeywords = [
-    'read', 'scan', 'document', 'text', 'explain', 'analyze',
-    'compare', 'navigate', 'plan', 'calculate', 'translate',
-    'menu', 'receipt', 'book', 'sign', 'detail', 'history'
-  ];
-  const isComplex = complexKeywords.some(k => lowerQuery.includes(k));
-  return isComplex ? 'gemini-3-pro-preview' : 'gemini-2.5-flash';
-};
+export const isReadingQuery = (query: string): boolean => matchesAny(query.toLowerCase(), 'reading');
 
 /**
  * Enhanced Smart Assistant Mode with FAILOVER
@@ -78,18 +62,33 @@ const analyzeQueryComplexity = (query: string): 'gemini-3-pro-preview' | 'gemini
 export const analyzeSmartAssistant = async (
   base64Image: string,
   userPrompt: string,
-  modelName: 'gemini-3-pro-preview' | 'gemini-2.5-flash',
+  tier: ModelTier,
   location?: GeoLocation
 ): Promise<string> => {
-  const ai = getAI();
-  const cleanBase64 = base64Image.split(',')[1] || base64Image;
+  // Banknotes get the structured money prompt, so the answer is the same every time
+  const question = userPrompt.toLowerCase();
+  if (matchesAny(question, 'money') && !matchesAny(question, 'price')) {
+    try {
+      const note = await recognizeBanknote(base64Image, tier);
+      if (!note.denomination) return t('moneyNoNote');
+      return note.confidence >= MIN_BANKNOTE_CONFIDENCE
+        ? banknoteSpeech(note)
+        : t('moneyUnsure', { note: banknoteSpeech(note) });
+    } catch (error) {
+      console.error("❌ Banknote recognition failed:", error);
+      return t('visionUnavailable');
+    }
+  }
 
-  // Context-aware prompt as a trusted friend (English)
+  const provider = getVisionProvider();
+  const cleanBase64 = toRawBase64(base64Image);
+
+  // Context-aware prompt as a trusted friend, answered in the user's language
   const getContextPrompt = (query: string): string => {
     const q = query.toLowerCase();
 
     // Reading request
-    if (q.includes('read') || q.includes('text') || q.includes('sign') || q.includes('book')) {
+    if (matchesAny(q, 'reading')) {
       return `You are a reading assistant for a visually impaired user.
 Request: "${userPrompt}"
 Read the text clearly and naturally. If there is a lot of text, summarize the key information first.
@@ -97,18 +96,20 @@ CRITICAL: ALWAYS finish your last sentence. Do not cut off.`;
     }
 
     // Navigation/direction request
-    if (q.includes('go') || q.includes('walk') || q.includes('way') || q.includes('direction') || q.includes('where')) {
+    if (matchesAny(q, 'navigation')) {
       return `You are a navigation companion for a visually impaired user.
 Question: "${userPrompt}"
-Describe the environment and guide them safely. Use clock-face directions (e.g., "door at 12 o'clock") and specific distances.
+Describe the environment and guide them safely.
+${stylePromptRules()}
 CRITICAL: ALWAYS finish your last sentence.`;
     }
 
     // Object identification
-    if (q.includes('what') || q.includes('identify') || q.includes('look') || q.includes('see')) {
+    if (matchesAny(q, 'identify')) {
       return `You are the eyes of a visually impaired user.
 Question: "${userPrompt}"
 Describe the object specifically: name, color, size, and position relative to the user. Be concise and natural.
+${stylePromptRules()}
 CRITICAL: ALWAYS finish your last sentence.`;
     }
 
@@ -120,126 +121,136 @@ Response Rules:
 - Speak naturally and warmly, like a friend.
 - Be specific and helpful.
 - Focus on the most important visual information.
-- If relevant to movement, use clock-face directions (12 o'clock ahead, 3 o'clock right, 9 o'clock left).
-- Maximum 3-4 sentences.
+${stylePromptRules()}
 - CRITICAL: ALWAYS finish your last sentence. Do not cut off.`;
   };
 
-  const promptText = getContextPrompt(userPrompt);
-
-  // Helper to generate content with specific config
-  const callAI = async (model: string, tools: any[], toolConfig: any) => {
-    return await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-          { text: promptText }
-        ]
-      },
-      config: {
-        tools: tools.length > 0 ? tools : undefined,
-        toolConfig: toolConfig,
-        temperature: 0.5,
-        // Increased to 2048 to prevent truncated sentences for "Ask AI" queries
-        maxOutputTokens: 2048, 
-      }
-    });
-  };
-
-  try {
-    // 1. Configure Tools (only for Pro models)
-    const tools: any[] = [];
-    if (modelName === 'gemini-3-pro-preview' && location && (userPrompt.toLowerCase().includes("where") || userPrompt.toLowerCase().includes("location"))) {
-      tools.push({ googleMaps: {} });
-    }
-
-    const toolConfig = tools.length > 0 && location ? {
-      retrievalConfig: { latLng: { latitude: location.latitude, longitude: location.longitude } }
-    } : undefined;
-
-    // 2. Primary Attempt
-    const response = await callAI(modelName, tools, toolConfig);
+  const promptText = `${getContextPrompt(userPrompt)}
+${responseLanguageRule()}`;
+
+  // Maps grounding only on the first try, with a model registered for tools, for location questions
+  const wantsMaps = provider.supportsMaps && !!location && matchesAny(userPrompt.toLowerCase(), 'location');
+
+  // Failover drops the tools: the fallback should be simpler and more robust
+  const callAI = async (callTier: ModelTier, info: CallInfo) => {
+    const useMaps = wantsMaps && !info.failover && hasCapability(provider.models[callTier], 'tools');
+    const response = await callModel('assistant', {
+      tier: callTier,
+      prompt: promptText,
+      imageBase64: cleanBase64,
+      useMaps,
+      location: useMaps ? location : undefined,
+      temperature: 0.5,
+      // Increased to 2048 to prevent truncated sentences for "Ask AI" queries
+      maxOutputTokens: 2048,
+    }, info);
 
     if (!response.text) throw new Error("Empty response");
     return cleanTextForSpeech(response.text);
+  };
 
-  } catch (error: any) {
-    console.warn(`⚠️ Primary model ${modelName} failed. Reason: ${error.message || error}`);
+  try {
+    return await withFailover('assistant', tier, callAI);
+  } catch (error) {
+    console.error("❌ Fallback failed:", error);
+    return t('visionUnavailable');
+  }
+};
 
-    // 3. Fallback to Flash (Simpler, more robust, no tools)
-    try {
-      console.log("🔄 Retrying with Gemini 2.5 Flash...");
-      const fallbackResponse = await callAI('gemini-2.5-flash', [], undefined);
-      
-      if (!fallbackResponse.text) throw new Error("Fallback empty response");
-      return cleanTextForSpeech(fallbackResponse.text);
+/**
+ * MONEY MODE
+ * Identifies the banknote in view as structured data (currency, denomination, side, confidence).
+ * Fails over down the tier chain like the assistant; throws if every tier fails.
+ */
+export const recognizeBanknote = async (
+  base64Image: string,
+  tier: ModelTier = 'fast'
+): Promise<BanknoteReading> => {
+  const cleanBase64 = toRawBase64(base64Image);
+
+  const prompt = `You are a banknote reader for a visually impaired user who is counting cash.
+
+RULES:
+1. Identify the single banknote closest to the camera. Ignore coins, cards and notes in the background.
+2. "currency" is the ISO 4217 code (e.g. "VND", "USD", "EUR"); "denomination" is the face value as a number (e.g. 50000).
+3. "side" is "front" for the side with the portrait, "back" for the other side, "unknown" if unsure.
+4. "confidence" is 0 to 1: how sure you are of the denomination. Be honest; folded, blurred or partly hidden notes are below 0.6.
+5. If no banknote is visible, return {"currency": "", "denomination": 0, "side": "unknown", "confidence": 0}.
+
+OUTPUT: Only JSON, exactly this shape:
+${BANKNOTE_JSON_SCHEMA}`;
+
+  const recognize = async (callTier: ModelTier, info: CallInfo) => {
+    const response = await callModel('money', {
+      tier: callTier,
+      prompt,
+      imageBase64: cleanBase64,
+      json: true,
+      temperature: 0.1,
+      maxOutputTokens: 256,
+    }, info);
+    const note = parseBanknote(response.text || '');
+    if (!note) throw new Error("Banknote output was not valid JSON");
+    return note;
+  };
 
-    } catch (fallbackError: any) {
-      console.error("❌ Fallback failed:", fallbackError);
-      return "I'm having trouble connecting to my vision services right now.";
-    }
-  }
+  return await withFailover('money', tier, recognize);
 };
 
 /**
  * CONTINUOUS NAVIGATION MODE
  * Designed as a trusted companion for a blind person.
+ * Returns structured hazards; the spoken sentence is rendered from them.
  * Includes Retry Logic for 500 Errors.
  */
-export const analyzeForNavigation = async (base64Image: string): Promise<string> => {
-  const ai = getAI();
-  const cleanBase64 = base64Image.split(',')[1] || base64Image;
+export const analyzeForNavigation = async (base64Image: string, signal?: AbortSignal): Promise<NavigationGuidance | null> => {
+  const cleanBase64 = toRawBase64(base64Image);
 
   // Retry wrapper for 500 errors with attempt counting
-  const generateWithRetry = async (attempt: number = 1): Promise<string> => {
+  const generateWithRetry = async (attempt: number = 1): Promise<NavigationGuidance | null> => {
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-          parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-            {
-              text: `You are a trusted guide walking beside a blind person. You are seeing through their camera.
+      const response = await callModel('navigation', {
+        tier: 'fast',
+        imageBase64: cleanBase64,
+        json: true,
+        prompt: `You are a trusted guide walking beside a blind person. You are seeing through their camera.
 
-MISSION: Briefly describe what you see to help them navigate safely.
+MISSION: Report what matters to help them navigate safely.
 
 MANDATORY RULES:
-1. Speak naturally, like a friend.
-2. PRIORITY: HAZARDS > Obstacles > Clear Path > Surroundings.
-3. Use clock directions: 12 o'clock (straight), 3 o'clock (right), 9 o'clock (left).
-4. Distance: Use steps or meters.
-5. Mention floor conditions if relevant (wet, uneven, steps).
-6. ALWAYS finish your sentences.
-7. MAX 2 short sentences.
-
-GOOD EXAMPLES:
-- "Path is clear, keep going straight."
-- "Stop! Stairs going down right in front of you."
-- "There is a chair at 2 o'clock, about 3 steps away. Bear left."
-- "Doorway at 1 o'clock. Floor looks slippery."
-- "Person approaching from 10 o'clock."
-- "Wall directly ahead. Turn right."
-
-BAD EXAMPLES:
-- "I see a..."
-- Long descriptions.
-- No directional guidance.
-- "The path ahead" (incomplete)
-
-Now, look at the image and guide your friend:`
-            }
-          ]
-        },
-        config: {
-          temperature: 0.5,
-          maxOutputTokens: 8192, // Increased from 512 for fullest answer
-        }
-      });
+1. PRIORITY: HAZARDS > Obstacles > Clear Path > Surroundings.
+2. "clock" is the clock direction: 12 (straight), 3 (right), 9 (left).
+3. "distanceMeters" is your best estimate of the distance in meters.
+4. "severity": "high" = must stop now (stairs, drop-off, traffic, object within 1 meter in the path),
+   "medium" = obstacle to walk around, "low" = useful landmark (door, bench).
+5. Include floor conditions as hazards if relevant (wet floor, uneven ground, steps).
+6. List at most 3 hazards. Empty list if nothing is in the way.
+7. "pathClear" is true only if they can keep walking straight safely.
+8. "suggestion" is one short action, e.g. "Bear left." or "Turn right." Omit it if they should keep going.
+9. Keep JSON keys and severity values in English. Write "type" and "suggestion" in ${getLocaleInfo().language}.
+
+OUTPUT: Only JSON, exactly this shape:
+${NAVIGATION_JSON_SCHEMA}
+
+EXAMPLES:
+- {"pathClear": true, "hazards": []}
+- {"pathClear": false, "hazards": [{"type": "stairs going down", "clock": 12, "distanceMeters": 0.5, "severity": "high"}]}
+- {"pathClear": false, "hazards": [{"type": "chair", "clock": 2, "distanceMeters": 2, "severity": "medium"}], "suggestion": "Bear left."}
+
+Now, look at the image and guide your friend:`,
+        temperature: 0.5,
+        maxOutputTokens: 8192, // Increased from 512 for fullest answer
+        signal,
+      }, { attempt });
 
       const text = response.text?.trim();
-      if (!text) return "";
+      if (!text) return null;
+
+      const guidance = parseNavigationGuidance(text);
+      if (guidance) return guidance;
 
+      // Model ignored the JSON contract: fall back to speaking the prose
+      console.warn("⚠️ Navigation output was not JSON, using text fallback");
       let finalSpeech = cleanTextForSpeech(text);
 
       // Safety Clipper: trim incomplete sentences if the model fails to obey instructions
@@ -254,9 +265,12 @@ Now, look at the image and guide your friend:`
         }
       }
 
-      return finalSpeech || "Scanning...";
+      return finalSpeech ? guidanceFromText(finalSpeech) : null;
 
     } catch (error: any) {
+      // Cancelled by the caller: nobody is waiting for an answer any more
+      if (signal?.aborted) return null;
+
       // Check for 5xx server errors or 500 status codes
       const isServerError = (error.status && error.status >= 500) || 
                             (error.code === 500) ||
@@ -272,9 +286,52 @@ Now, look at the image and guide your friend:`
       }
       
       console.error("Navigation analyze error:", error);
-      return ""; // Fail gracefully so the app loop continues
+      return null; // Fail gracefully so the app loop continues
     }
   };
 
   return generateWithRetry();
 };
+
+/**
+ * DOCUMENT MODE
+ * Extracts one page as structured blocks (headings, paragraphs, lists, tables, prices).
+ * Uses the pro tier for accuracy and fails over down the tier chain; throws if every tier fails.
+ */
+export const extractDocumentPage = async (
+  base64Image: string,
+  page: number
+): Promise<{ title?: string; blocks: DocumentBlock[] }> => {
+  const cleanBase64 = toRawBase64(base64Image);
+
+  const prompt = `You are a document reader for a visually impaired user. Transcribe this page (page ${page}) exactly.
+
+RULES:
+1. Keep the reading order of the page: top to bottom, columns left to right.
+2. Split the text into blocks: "heading" for titles, "paragraph" for running text, "list" for a list (one block per list),
+   "table" for tables (put the cells in "rows", header row first), "price" for one priced line on a receipt, bill or menu.
+3. For "price" blocks, "text" is the whole line (e.g. "Coffee 45,000"), "amount" is the number only,
+   and "isTotal" is true for the total / amount due line.
+4. Copy text word for word in its original language. Do not translate, summarise or correct it.
+5. Skip page numbers, running headers and decorative text. If the page is unreadable, return an empty "blocks" list.
+6. "title" is the document's title if this page shows one, otherwise "".
+
+OUTPUT: Only JSON, exactly this shape:
+${DOCUMENT_JSON_SCHEMA}`;
+
+  const extract = async (tier: ModelTier, info: CallInfo) => {
+    const response = await callModel('document', {
+      tier,
+      prompt,
+      imageBase64: cleanBase64,
+      json: true,
+      temperature: 0.1,
+      maxOutputTokens: 8192,
+    }, info);
+    const parsed = parseDocumentPage(response.text || '', page);
+    if (!parsed) throw new Error("Document output was not valid JSON");
+    return parsed;
+  };
+
+  return await withFailover('document', 'pro', extract);
+};
@@ -0,0 +1,70 @@
+import { NavigationGuidance } from "../types";
+import { getPreferences } from "./preferences";
+
+// Vibration patterns (ms on, ms off, ...). Severity says how urgent,
+// direction says where; they are played one after the other.
+export const HAPTIC_PATTERNS = {
+  stop: [400, 100, 400, 100, 400],
+  caution: [150, 100, 150],
+  clear: [40],
+
+  ahead: [300],
+  right: [80, 80, 80],
+  left: [80, 80, 80, 80, 80],
+
+  // Assistant state changes
+  listening: [30],
+  captured: [30, 40, 30],
+  answerReady: [60, 60, 60],
+  error: [600],
+
+  // SOS countdown: ... --- ... in Morse
+  sos: [100, 100, 100, 100, 100, 300, 300, 100, 300, 100, 300, 300, 100, 100, 100, 100, 100],
+};
+
+export type HapticCue = keyof typeof HAPTIC_PATTERNS;
+
+// Pause between the severity and direction parts of a hazard cue
+const PART_GAP_MS = 300;
+
+export const hapticsSupported = (): boolean =>
+  typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+
+export const hapticsEnabled = (): boolean =>
+  getPreferences().feedbackChannel !== 'speech' && hapticsSupported();
+
+const vibrate = (pattern: number[]) => {
+  if (!hapticsEnabled()) return;
+  try {
+    navigator.vibrate(pattern);
+  } catch (e) {
+    // Some browsers throw when called without a user gesture
+  }
+};
+
+export const playHaptic = (cue: HapticCue) => vibrate(HAPTIC_PATTERNS[cue]);
+
+const directionCue = (clock: number): HapticCue => {
+  if (clock >= 2 && clock <= 4) return 'right';
+  if (clock >= 8 && clock <= 10) return 'left';
+  return 'ahead';
+};
+
+/**
+ * Severity pattern of the most urgent hazard followed by its direction,
+ * or a single short tick when the path is clear.
+ */
+export const hapticForGuidance = (guidance: NavigationGuidance) => {
+  const top = guidance.hazards[0];
+  if (!top || top.severity === 'low') {
+    if (guidance.pathClear) playHaptic('clear');
+    return;
+  }
+
+  const severity = top.severity === 'high' ? HAPTIC_PATTERNS.stop : HAPTIC_PATTERNS.caution;
+  vibrate([...severity, PART_GAP_MS, ...HAPTIC_PATTERNS[directionCue(top.clock)]]);
+};
+
+export const stopHaptics = () => {
+  if (hapticsSupported()) navigator.vibrate(0);
+};
@@ -0,0 +1,240 @@
+// Signalling server (server/helperSignalServer.mjs) that also serves the helper page
+const SIGNAL_URL = (process.env.HELPER_SIGNAL_URL || 'http://localhost:8790').replace(/\/$/, '');
+// STUN/TURN servers, comma separated; calls beyond the local network may need a TURN server
+const ICE_SERVERS: RTCIceServer[] = (process.env.HELPER_ICE_SERVERS || 'stun:stun.l.google.com:19302')
+  .split(',').map(url => url.trim()).filter(Boolean).map(urls => ({ urls }));
+// Helper messages are spoken, so a pasted paragraph is cut short
+const MAX_MESSAGE_LENGTH = 300;
+
+export type HelperCallStatus =
+  | 'starting'     // Creating the call
+  | 'waiting'      // Code given out, no helper yet (or the helper dropped)
+  | 'confirming'   // A helper knocked; nothing is sent until the user lets them in
+  | 'connecting'   // Helper let in, WebRTC negotiating
+  | 'connected'    // Helper sees the camera and hears the mic
+  | 'failed'       // Could not reach the signalling server
+  | 'ended';       // Hung up by the user
+
+interface HelperCallCallbacks {
+  onStatusChange: (status: HelperCallStatus) => void;
+  onKnock: (name: string) => void;     // A helper wants to join; answer with admit() or decline()
+  onMessage: (text: string) => void;   // Something the helper typed, to be spoken
+}
+
+/**
+ * Link the helper opens to join. The token in it is what lets them in, so it is
+ * only ever shared, never spoken.
+ */
+export const helperPageUrl = (code: string, token: string): string =>
+  `${SIGNAL_URL}/helper?code=${code}&token=${encodeURIComponent(token)}`;
+
+/**
+ * Video call to a sighted helper: the camera and microphone go to the helper's
+ * browser over WebRTC, and the helper's typed messages come back on a data channel.
+ * Connection setup goes through a small signalling server; each call has a 6-digit
+ * code and a secret link for the helper. The camera and microphone are only offered
+ * once the user has heard who is joining and let them in.
+ */
+export class HelperCall {
+  private code: string | null = null;
+  private userToken = '';
+  private helperToken = '';
+  private events: EventSource | null = null;
+  private pc: RTCPeerConnection | null = null;
+  private mic: MediaStream | null = null;
+  private status: HelperCallStatus | null = null;
+  private incoming: Promise<void> = Promise.resolve();
+
+  constructor(private getVideoStream: () => MediaStream | null, private callbacks: HelperCallCallbacks) { }
+
+  get callCode(): string | null {
+    return this.code;
+  }
+
+  get callStatus(): HelperCallStatus | null {
+    return this.status;
+  }
+
+  get helperLink(): string | null {
+    return this.code ? helperPageUrl(this.code, this.helperToken) : null;
+  }
+
+  /**
+   * Creates the call and waits for a helper. Returns the code to give them.
+   */
+  public async start(): Promise<string> {
+    this.setStatus('starting');
+    try {
+      const res = await fetch(`${SIGNAL_URL}/rooms`, { method: 'POST' });
+      if (!res.ok) throw new Error(`Signalling server returned ${res.status}`);
+      const room = await res.json();
+      this.code = String(room.code);
+      this.userToken = String(room.userToken);
+      this.helperToken = String(room.helperToken);
+    } catch (e) {
+      this.setStatus('failed');
+      throw e;
+    }
+
+    // The call still works without a mic; the helper just can't hear the user
+    try {
+      this.mic = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (e) {
+      console.warn("📞 No microphone for the helper call:", e);
+    }
+    if (this.status === 'ended') {
+      this.releaseMic();
+      return this.code;
+    }
+
+    this.events = new EventSource(`${SIGNAL_URL}/rooms/${this.code}/events?role=user&token=${encodeURIComponent(this.userToken)}`);
+    // One at a time: a candidate must not be applied before the answer it belongs to
+    this.events.onmessage = (e) => {
+      this.incoming = this.incoming.then(() => this.handleSignal(JSON.parse(e.data)));
+    };
+    this.events.onerror = () => {
+      // EventSource retries by itself unless the server refused the stream
+      if (this.events?.readyState === EventSource.CLOSED) this.setStatus('failed');
+    };
+
+    this.setStatus('waiting');
+    return this.code;
+  }
+
+  /**
+   * Lets in the helper who knocked: only now are the camera and microphone offered.
+   */
+  public async admit() {
+    if (this.status !== 'confirming') return;
+    try {
+      await this.offer();
+    } catch (e) {
+      console.warn("📞 Could not start the call:", e);
+      this.closePeer();
+      this.setStatus('waiting');
+    }
+  }
+
+  /**
+   * Turns away the helper who knocked; the call keeps waiting for someone else.
+   * Their link stops working, and helperLink gives a new one to share.
+   */
+  public async decline() {
+    if (this.status !== 'confirming') return;
+    this.setStatus('waiting');
+    const reply = await this.signal({ type: 'reject' });
+    if (reply?.helperToken) this.helperToken = String(reply.helperToken);
+  }
+
+  public end() {
+    if (this.status === 'ended') return;
+    if (this.code && this.events) this.signal({ type: 'bye' });
+    this.events?.close();
+    this.events = null;
+    this.closePeer();
+    this.releaseMic();
+    this.setStatus('ended');
+  }
+
+  private async handleSignal(message: any) {
+    try {
+      switch (message?.type) {
+        case 'knock':
+          // A helper coming back after a dropped connection knocks again too
+          this.closePeer();
+          this.setStatus('confirming');
+          this.callbacks.onKnock(String(message.name ?? ''));
+          break;
+        case 'answer':
+          await this.pc?.setRemoteDescription(message.sdp);
+          break;
+        case 'candidate':
+          await this.pc?.addIceCandidate(message.candidate);
+          break;
+        case 'leave':
+          this.closePeer();
+          this.setStatus('waiting');
+          break;
+      }
+    } catch (e) {
+      console.warn("📞 Signalling error:", message?.type, e);
+    }
+  }
+
+  /**
+   * The user let the helper in: start a fresh connection to them.
+   */
+  private async offer() {
+    this.closePeer();
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    this.pc = pc;
+    this.setStatus('connecting');
+
+    // Tracks are shared with the on-screen camera; they are never stopped here
+    const video = this.getVideoStream();
+    video?.getVideoTracks().forEach(track => pc.addTrack(track, video));
+    this.mic?.getAudioTracks().forEach(track => pc.addTrack(track, this.mic!));
+
+    const channel = pc.createDataChannel('messages');
+    channel.onmessage = (e) => {
+      let text = String(e.data);
+      try {
+        const parsed = JSON.parse(text);
+        if (parsed?.type !== 'say') return;
+        text = String(parsed.text ?? '');
+      } catch {
+        // Plain text is fine too
+      }
+      text = text.trim().slice(0, MAX_MESSAGE_LENGTH);
+      if (text) this.callbacks.onMessage(text);
+    };
+
+    pc.onicecandidate = (e) => {
+      if (e.candidate) this.signal({ type: 'candidate', candidate: e.candidate.toJSON() });
+    };
+    pc.onconnectionstatechange = () => {
+      if (this.pc !== pc) return;
+      if (pc.connectionState === 'connected') this.setStatus('connected');
+      // The helper page will rejoin, or the user can hang up and call again
+      if (pc.connectionState === 'failed') {
+        this.closePeer();
+        this.setStatus('waiting');
+      }
+    };
+
+    await pc.setLocalDescription(await pc.createOffer());
+    this.signal({ type: 'offer', sdp: pc.localDescription?.toJSON() });
+  }
+
+  private async signal(message: Record<string, unknown>): Promise<any> {
+    try {
+      const res = await fetch(`${SIGNAL_URL}/rooms/${this.code}/signal?token=${encodeURIComponent(this.userToken)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: 'user', ...message }),
+      });
+      return res.ok ? await res.json() : null;
+    } catch (e) {
+      console.warn("📞 Could not reach the signalling server:", e);
+      return null;
+    }
+  }
+
+  private closePeer() {
+    if (!this.pc) return;
+    this.pc.onconnectionstatechange = null;
+    this.pc.close();
+    this.pc = null;
+  }
+
+  private releaseMic() {
+    this.mic?.getTracks().forEach(track => track.stop());
+    this.mic = null;
+  }
+
+  private setStatus(status: HelperCallStatus) {
+    if (status === this.status) return;
+    this.status = status;
+    this.callbacks.onStatusChange(status);
+  }
+}
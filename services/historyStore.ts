@@ -0,0 +1,70 @@
+import { AILogEntry, AppMode } from "../types";
+import { openDB, promisify, STORES } from "./localDb";
+
+const STORE = STORES.history;
+// Oldest entries are pruned beyond this many
+const MAX_ENTRIES = 500;
+
+export const createLogEntry = (mode: AppMode, text: string): AILogEntry => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: new Date(),
+  mode,
+  text,
+});
+
+export const addLogEntry = async (entry: AILogEntry): Promise<void> => {
+  const db = await openDB();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(entry));
+
+  const count = await promisify(store.count());
+  if (count > MAX_ENTRIES) {
+    // Walk the timestamp index from the oldest and drop the overflow
+    let toDelete = count - MAX_ENTRIES;
+    const cursorRequest = store.index('timestamp').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor && toDelete > 0) {
+        cursor.delete();
+        toDelete--;
+        cursor.continue();
+      }
+    };
+  }
+};
+
+/**
+ * All entries, newest first.
+ */
+export const getLogEntries = async (): Promise<AILogEntry[]> => {
+  const db = await openDB();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const entries = await promisify(store.index('timestamp').getAll()) as AILogEntry[];
+  return entries.reverse();
+};
+
+export const clearLogEntries = async (): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
+
+export const historyToJSON = (entries: AILogEntry[]): string =>
+  JSON.stringify(entries.map(e => ({ ...e, timestamp: e.timestamp.toISOString() })), null, 2);
+
+export const historyToCSV = (entries: AILogEntry[]): string => {
+  const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const rows = entries.map(e => [e.id, e.timestamp.toISOString(), e.mode, escape(e.text)].join(','));
+  return ['id,timestamp,mode,text', ...rows].join('\n');
+};
+
+/**
+ * Triggers a browser download of the given text.
+ */
+export const downloadText = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,650 @@
+export type Locale = 'en-US' | 'vi-VN';
+
+export interface LocaleInfo {
+  code: Locale;
+  label: string;      // Short HUD label
+  language: string;   // Language name used in prompts
+}
+
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  { code: 'en-US', label: 'EN', language: 'English' },
+  { code: 'vi-VN', label: 'VI', language: 'Vietnamese (Tiếng Việt)' },
+];
+
+const EN = {
+  // Status & spoken feedback
+  ready: "Ready",
+  wait: "Wait...",
+  listening: "Listening...",
+  thinking: "Thinking...",
+  usingModel: "{model}...",
+  failedTryAgain: "Failed. Try again.",
+  didNotUnderstand: "I couldn't understand that.",
+  cameraError: "Camera Error",
+  cameraDisabled: "Camera Disabled",
+  allowCamera: "Please allow camera access.",
+  languageChanged: "Language set to English.",
+  voiceHelp: "You can say: start navigation, stop, repeat, before that, louder, quieter, slower, faster, switch language, settings, clear history, scan page, continue reading, count money, take me to a place, remember this place as, list places, call a helper, or help me in an emergency. Anything else is a question about what's in front of you.",
+  visionUnavailable: "I'm having trouble connecting to my vision services right now.",
+
+  // Navigation
+  navActive: "Navigation Active",
+  navStarted: "Navigation started. I will guide you continuously.",
+  navStopped: "Navigation stopped.",
+  pathClear: "Path is clear, keep going straight.",
+  stillClear: "Still clear.",
+  scanning: "Scanning...",
+  hazardAt: "{type} {direction}, {distance}.",
+  hazardStop: "Stop!",
+  directionClock: "at {clock} o'clock",
+  directionAhead: "straight ahead",
+  directionSlightRight: "slightly to your right",
+  directionRight: "to your right",
+  directionSlightLeft: "slightly to your left",
+  directionLeft: "to your left",
+  directionBehind: "behind you",
+  distanceHere: "right in front of you",
+  distanceSteps: "about {steps} steps away",
+  distanceMeters: "about {meters} meters away",
+  distanceFeet: "about {feet} feet away",
+
+  // Offline detection
+  offlineModeOn: "Offline mode. I lost the connection and am using basic on-device detection. Take extra care.",
+  offlineModeOff: "Back online. Full guidance restored.",
+  offlineModeUnavailable: "On-device detection isn't installed, so I can't guide you if the connection drops.",
+  offlineBadge: "Offline",
+  objPerson: "person",
+  objBicycle: "bicycle",
+  objMotorcycle: "motorbike",
+  objCar: "car",
+  objBus: "bus",
+  objTruck: "truck",
+  objDog: "dog",
+  objChair: "chair",
+  objBench: "bench",
+  objTable: "table",
+  objPlant: "plant pot",
+  objHydrant: "fire hydrant",
+  objSuitcase: "bag",
+  objObstacle: "obstacle",
+
+  // History
+  history: "History",
+  historyDialog: "Guidance history",
+  closeHistory: "Close history",
+  historyCleared: "History cleared.",
+  nothingSaidYet: "I haven't said anything yet.",
+  nothingBefore: "There is nothing before that.",
+  nothingRecorded: "Nothing recorded yet.",
+  clear: "Clear",
+
+  // Live conversation
+  connecting: "Connecting...",
+  talkingWithGuide: "Talking with your guide",
+  reconnected: "Reconnected.",
+  reconnectedContextLost: "Reconnected, but I lost our conversation.",
+  reconnectingAttempt: "Reconnecting (attempt {attempt})...",
+  connectionLostReconnecting: "Connection lost. Reconnecting.",
+  connectionDegraded: "Connection degraded: {reason}",
+  micUnavailable: "I can't hear you. The microphone is unavailable.",
+  connectionLost: "Connection lost",
+  couldNotReconnect: "I could not reconnect to your guide.",
+  liveGreeting: "I'm with you. Ready to guide.",
+
+  // Document reading
+  docScanning: "Scanning page {page}. Hold the page flat and still.",
+  docPageAdded: "Page {page} saved, {count} sections. Say scan page for another, or continue reading.",
+  docPageEmpty: "I couldn't find any text on that page. Try again with more light.",
+  docScanFailed: "I couldn't read that page. Please try again.",
+  docNew: "New document. Say scan page to add the first page.",
+  docNone: "There is no document open. Say scan page to start one.",
+  docResumed: "Resuming {title}, page {page}.",
+  docUntitled: "your document",
+  docEnd: "End of document.",
+  docStart: "This is the beginning of the document.",
+  docNoPage: "There is no page {page}.",
+  docNoTotal: "I didn't find a total in this document.",
+  docTotal: "The total is: {text}",
+  docClosed: "Document closed. Your place is saved.",
+  docHeading: "Heading: {text}",
+  docProgress: "Page {page}/{pages} · {index}/{count}",
+  spellSpace: "space",
+
+  // Capture coaching
+  captureFraming: "Point the camera at it. I'll take the picture when it's clear.",
+  captureTimeout: "I couldn't get a clear picture. Please try again.",
+  hintTooDark: "Too dark. Find more light.",
+  hintTooBright: "Too bright. Tilt the phone to avoid glare.",
+  hintHoldStill: "Hold still.",
+  hintNoText: "I can't see any text. Point the camera at the page.",
+  hintMoveLeft: "Move the phone left.",
+  hintMoveRight: "Move the phone right.",
+  hintMoveUp: "Move the phone up.",
+  hintMoveDown: "Move the phone down.",
+  hintMoveCloser: "Move the phone closer.",
+
+  // Money counting
+  moneyStart: "Money mode. Hold one note at a time in front of the camera and say next. Say total or reset at any time.",
+  moneyCounted: "{note}. That's {total} so far.",
+  moneyUnsure: "I'm not sure. It might be {note}. Show it again, flat and in good light.",
+  moneyNoNote: "I can't see a banknote. Hold it flat in front of the camera.",
+  moneyFailed: "I couldn't check that note. Please try again.",
+  moneyTotal: "You have {total}.",
+  moneyEmpty: "Nothing counted yet.",
+  moneyReset: "Total reset to zero.",
+  moneyDone: "Stopped counting. The total was {total}.",
+  moneyStopped: "Stopped counting.",
+  moneyProgress: "{total} · {count} notes",
+  moneyAmount: "{amount} {currency}",
+  moneyNoteSide: "{value}, {side}",
+  moneyFront: "front",
+  moneyBack: "back",
+  moneyAnd: " and ",
+  currencyVND: "dong",
+  currencyUSD: "dollars",
+  currencyEUR: "euros",
+
+  // Walking directions
+  routeSearching: "Looking for {place}...",
+  routeNotFound: "I couldn't find {place}.",
+  routeFailed: "I couldn't get directions right now. Please try again.",
+  routeNoLocation: "I don't know where you are yet. Make sure location is turned on.",
+  routeStarted: "Route to {place}: {distance}, about {minutes} minutes. {instruction}.",
+  routePrepare: "In {distance}, {action}.",
+  routeNow: "Now {action}.",
+  routeArrived: "You have arrived at {place}.",
+  routeArriving: "{place} is in {distance}.",
+  routeArriveAt: "arrive at {place}",
+  routeOffRoute: "You are off the route. Finding a new one.",
+  routeStatus: "{distance} to {place}. Next, in {next}: {instruction}.",
+  routeNone: "You have no destination. Say take me to, and a place.",
+  routeCancelled: "Directions cancelled.",
+  routeProgress: "{place} · {distance}",
+  routeDepart: "start walking",
+  routeDepartOnto: "walk along {street}",
+  routeOnto: "{action} onto {street}",
+  routeLeft: "turn left",
+  routeRight: "turn right",
+  routeSlightLeft: "bear left",
+  routeSlightRight: "bear right",
+  routeSharpLeft: "turn sharp left",
+  routeSharpRight: "turn sharp right",
+  routeStraight: "continue straight",
+  routeUturn: "turn around",
+  routeMeters: "{meters} meters",
+  routeKilometers: "{km} kilometers",
+  routeFeet: "{feet} feet",
+  routeSteps: "{steps} steps",
+
+  // Saved places
+  placeSaved: "Saved this place as {label}.",
+  placeSavedWithPhoto: "Saved this place as {label}, with a photo.",
+  placeExists: "You already have a place called {label}. Say rename to change it.",
+  placeNearby: "Nearby: {label}, about {distance}.",
+  placeList: "You have {count} saved places: {labels}.",
+  placeListOne: "You have one saved place: {labels}.",
+  placeListEmpty: "You haven't saved any places. Say remember this place as, and a name.",
+  placeListNearest: "The nearest is {label}, {distance} away.",
+  placeNotFound: "I don't have a place called {label}.",
+  placeRenamed: "Renamed {from} to {to}.",
+  placeDeleted: "Forgot {label}.",
+  placeDeleteConfirm: "Did you mean {label}? Say yes to forget it, or no to keep it.",
+  placeKept: "Kept {label}.",
+
+  // Emergency SOS
+  sosCountdown: "Sending an SOS to your emergency contacts in {seconds} seconds. Say cancel or tap the screen if you're okay.",
+  sosFallCountdown: "Did you fall? Sending an SOS in {seconds} seconds. Say I'm okay or tap the screen to cancel.",
+  sosTick: "{seconds}",
+  sosSent: "SOS sent with your location. I'll send it again every minute. Say I'm okay when you're safe.",
+  sosSendFailed: "I couldn't reach your emergency contacts. I'll keep trying every minute.",
+  sosNotConfigured: "Emergency alerts are not set up, so no one was contacted. Call emergency services directly if you need help.",
+  sosCancelled: "SOS cancelled.",
+  sosResolved: "Glad you're okay. I've told your contacts you're safe.",
+  sosTitle: "SOS",
+  sosSendingIn: "Sending in {seconds}",
+  sosAlerted: "Emergency contacts alerted",
+  sosTapCancel: "Tap anywhere to cancel",
+  sosTapSafe: "Tap when you're safe",
+
+  // Sighted helper call
+  helperCallStarting: "Calling a helper...",
+  helperCallWaiting: "Your call code is {digits}. Tap the call badge at the top to send your helper the link. Navigation is paused until the call ends.",
+  helperCallKnock: "{name} wants to join your call and see your camera. Say accept or decline.",
+  helperCallDeclined: "They were not let in, and their link no longer works. Tap the call badge to send your helper a new one.",
+  helperLinkCopied: "Call link copied. Paste it to your helper.",
+  helperLinkFailed: "I couldn't share the call link.",
+  helperCallConnected: "Your helper is connected and can see your camera.",
+  helperCallLeft: "Your helper lost the connection. Waiting for them to come back.",
+  helperCallEnded: "Call ended.",
+  helperCallEndedNav: "Call ended. Navigation resumed.",
+  helperCallFailed: "I couldn't start the call. The helper server may be unreachable.",
+  helperCallNone: "You're not in a call.",
+  helperCallCode: "Call code {code}",
+  helperCallLive: "Helper connected",
+  helperCallKnocking: "{name} is asking to join",
+  shareHelperLink: "Share the call link",
+
+  // Model usage
+  usage: "Usage",
+  usageCalls: "Calls",
+  usageTokens: "Tokens",
+  usageCost: "Cost",
+  usageLatency: "Avg latency",
+  usageRetries: "Retries",
+  usageFailovers: "Failovers",
+  usageErrors: "Errors",
+  usageDegraded: "Downgraded",
+  usageBudget: "Daily budget",
+  usageNoBudget: "No daily budget set.",
+  usageOverBudget: "Budget reached: using the faster, cheaper model until tomorrow.",
+  usagePurpose: "Purpose",
+  usageRecent: "Recent calls",
+  purposeRouter: "Routing",
+  purposeNavigation: "Navigation",
+  purposeAssistant: "Questions",
+  purposeDocument: "Documents",
+  purposeMoney: "Money",
+  purposeLive: "Live conversation",
+  budgetExceeded: "Today's usage budget is reached. Answers may be less detailed until tomorrow.",
+
+  // Wake word
+  wakeListening: "Say \"{phrase}\" to ask",
+  wakeHeard: "Yes? I'm listening.",
+
+  // Settings
+  settings: "Settings",
+  settingsOpened: "Settings. Say next, previous, increase, decrease, or close.",
+  settingsClosed: "Settings saved.",
+  settingsReset: "Settings reset to defaults.",
+  reset: "Reset",
+  settingValue: "{label}: {value}",
+  settingSpeechRate: "Speech rate",
+  settingPitch: "Pitch",
+  settingVolume: "Volume",
+  settingVoice: "Voice",
+  settingVerbosity: "Detail level",
+  settingDistanceUnit: "Distance units",
+  settingDirectionStyle: "Directions",
+  settingStride: "Stride length",
+  settingPlaceRadius: "Saved place alert distance",
+  settingFastestScan: "Fastest scan while walking",
+  settingSlowestScan: "Slowest scan when standing still",
+  settingFallDetection: "Fall detection",
+  settingFeedbackChannel: "Guidance feedback",
+  channelSpeech: "speech only",
+  channelHaptics: "vibration only",
+  channelBoth: "speech and vibration",
+  settingEarcons: "Direction tones",
+  earconsOff: "off",
+  earconsAlongside: "with speech",
+  earconsInstead: "instead of speech",
+  settingWakeWord: "Wake phrase",
+  wakeWordOff: "off, tap to ask",
+  fallDetectionOn: "on, asks before calling for help",
+  fallDetectionOff: "off",
+  sosNotConfiguredSetting: "{value}. Warning: emergency alerts are not set up, an SOS will not reach anyone",
+  voiceAutomatic: "automatic",
+  verbosityBrief: "brief",
+  verbosityNormal: "normal",
+  verbosityDetailed: "detailed",
+  unitSteps: "steps",
+  unitMeters: "meters",
+  unitFeet: "feet",
+  styleClock: "clock face",
+  styleLeftRight: "left and right",
+  strideValue: "{meters} meters",
+  radiusValue: "within {meters} meters",
+  scanIntervalValue: "every {seconds} seconds",
+
+  // HUD buttons
+  startLive: "START LIVE",
+  stopLive: "STOP LIVE",
+  talk: "TALK",
+  endTalk: "END TALK",
+  askAi: "ASK AI",
+};
+
+export type StringKey = keyof typeof EN;
+
+const VI: Record<StringKey, string> = {
+  ready: "Sẵn sàng",
+  wait: "Chờ một chút...",
+  listening: "Đang nghe...",
+  thinking: "Đang suy nghĩ...",
+  usingModel: "{model}...",
+  failedTryAgain: "Lỗi. Vui lòng thử lại.",
+  didNotUnderstand: "Tôi không hiểu yêu cầu đó.",
+  cameraError: "Lỗi camera",
+  cameraDisabled: "Camera bị tắt",
+  allowCamera: "Vui lòng cho phép truy cập camera.",
+  languageChanged: "Đã chuyển sang tiếng Việt.",
+  voiceHelp: "Bạn có thể nói: dẫn đường, dừng lại, nhắc lại, trước đó, to hơn, nhỏ hơn, chậm hơn, nhanh hơn, đổi ngôn ngữ, cài đặt, xóa lịch sử, quét trang, đọc tiếp, đếm tiền, đưa tôi đến một nơi, nhớ nơi này là, liệt kê nơi đã lưu, gọi người hỗ trợ, hoặc cứu tôi khi khẩn cấp. Những câu khác sẽ là câu hỏi về những gì ở trước mặt bạn.",
+  visionUnavailable: "Tôi đang gặp sự cố khi kết nối với dịch vụ hình ảnh.",
+
+  navActive: "Đang dẫn đường",
+  navStarted: "Bắt đầu dẫn đường. Tôi sẽ hướng dẫn bạn liên tục.",
+  navStopped: "Đã dừng dẫn đường.",
+  pathClear: "Đường thông thoáng, cứ đi thẳng.",
+  stillClear: "Đường vẫn thông thoáng.",
+  scanning: "Đang quan sát...",
+  hazardAt: "{type} {direction}, {distance}.",
+  hazardStop: "Dừng lại!",
+  directionClock: "ở hướng {clock} giờ",
+  directionAhead: "ngay phía trước",
+  directionSlightRight: "hơi lệch bên phải",
+  directionRight: "bên phải bạn",
+  directionSlightLeft: "hơi lệch bên trái",
+  directionLeft: "bên trái bạn",
+  directionBehind: "phía sau bạn",
+  distanceHere: "ngay trước mặt bạn",
+  distanceSteps: "cách khoảng {steps} bước",
+  distanceMeters: "cách khoảng {meters} mét",
+  distanceFeet: "cách khoảng {feet} feet",
+
+  offlineModeOn: "Chế độ ngoại tuyến. Mất kết nối, tôi đang dùng nhận diện cơ bản trên máy. Hãy cẩn thận hơn.",
+  offlineModeOff: "Đã có kết nối lại. Dẫn đường đầy đủ đã trở lại.",
+  offlineModeUnavailable: "Chưa cài nhận diện trên máy, nên tôi không thể dẫn đường nếu mất kết nối.",
+  offlineBadge: "Ngoại tuyến",
+  objPerson: "người",
+  objBicycle: "xe đạp",
+  objMotorcycle: "xe máy",
+  objCar: "ô tô",
+  objBus: "xe buýt",
+  objTruck: "xe tải",
+  objDog: "con chó",
+  objChair: "ghế",
+  objBench: "ghế dài",
+  objTable: "bàn",
+  objPlant: "chậu cây",
+  objHydrant: "trụ cứu hỏa",
+  objSuitcase: "túi đồ",
+  objObstacle: "vật cản",
+
+  history: "Lịch sử",
+  historyDialog: "Lịch sử hướng dẫn",
+  closeHistory: "Đóng lịch sử",
+  historyCleared: "Đã xóa lịch sử.",
+  nothingSaidYet: "Tôi chưa nói gì cả.",
+  nothingBefore: "Không có gì trước đó.",
+  nothingRecorded: "Chưa có gì được ghi lại.",
+  clear: "Xóa",
+
+  connecting: "Đang kết nối...",
+  talkingWithGuide: "Đang trò chuyện với người dẫn đường",
+  reconnected: "Đã kết nối lại.",
+  reconnectedContextLost: "Đã kết nối lại, nhưng tôi đã mất nội dung cuộc trò chuyện.",
+  reconnectingAttempt: "Đang kết nối lại (lần {attempt})...",
+  connectionLostReconnecting: "Mất kết nối. Đang kết nối lại.",
+  connectionDegraded: "Kết nối không ổn định: {reason}",
+  micUnavailable: "Tôi không nghe được bạn. Micro không khả dụng.",
+  connectionLost: "Mất kết nối",
+  couldNotReconnect: "Tôi không thể kết nối lại với người dẫn đường.",
+  liveGreeting: "Tôi ở đây với bạn. Sẵn sàng dẫn đường.",
+
+  docScanning: "Đang quét trang {page}. Giữ trang giấy phẳng và yên.",
+  docPageAdded: "Đã lưu trang {page}, {count} đoạn. Nói quét trang để thêm trang, hoặc đọc tiếp.",
+  docPageEmpty: "Tôi không thấy chữ trên trang đó. Hãy thử lại với nhiều ánh sáng hơn.",
+  docScanFailed: "Tôi không đọc được trang đó. Vui lòng thử lại.",
+  docNew: "Tài liệu mới. Nói quét trang để thêm trang đầu tiên.",
+  docNone: "Chưa có tài liệu nào. Nói quét trang để bắt đầu.",
+  docResumed: "Tiếp tục {title}, trang {page}.",
+  docUntitled: "tài liệu của bạn",
+  docEnd: "Hết tài liệu.",
+  docStart: "Đây là đầu tài liệu.",
+  docNoPage: "Không có trang {page}.",
+  docNoTotal: "Tôi không thấy tổng tiền trong tài liệu này.",
+  docTotal: "Tổng cộng: {text}",
+  docClosed: "Đã đóng tài liệu. Vị trí đọc đã được lưu.",
+  docHeading: "Tiêu đề: {text}",
+  docProgress: "Trang {page}/{pages} · {index}/{count}",
+  spellSpace: "dấu cách",
+
+  captureFraming: "Hướng camera vào đó. Tôi sẽ chụp khi hình rõ.",
+  captureTimeout: "Tôi không chụp được hình rõ. Vui lòng thử lại.",
+  hintTooDark: "Tối quá. Hãy tìm chỗ sáng hơn.",
+  hintTooBright: "Sáng quá. Nghiêng điện thoại để tránh lóa.",
+  hintHoldStill: "Giữ yên.",
+  hintNoText: "Tôi không thấy chữ. Hướng camera vào trang giấy.",
+  hintMoveLeft: "Dịch điện thoại sang trái.",
+  hintMoveRight: "Dịch điện thoại sang phải.",
+  hintMoveUp: "Dịch điện thoại lên trên.",
+  hintMoveDown: "Dịch điện thoại xuống dưới.",
+  hintMoveCloser: "Đưa điện thoại lại gần hơn.",
+
+  moneyStart: "Chế độ đếm tiền. Đưa từng tờ tiền trước camera rồi nói tiếp. Nói tổng hoặc đếm lại bất cứ lúc nào.",
+  moneyCounted: "{note}. Tổng đến giờ là {total}.",
+  moneyUnsure: "Tôi không chắc. Có thể là {note}. Hãy đưa lại tờ tiền, để phẳng và đủ sáng.",
+  moneyNoNote: "Tôi không thấy tờ tiền nào. Hãy giữ tờ tiền phẳng trước camera.",
+  moneyFailed: "Tôi không kiểm tra được tờ tiền đó. Vui lòng thử lại.",
+  moneyTotal: "Bạn có {total}.",
+  moneyEmpty: "Chưa đếm tờ nào.",
+  moneyReset: "Đã đặt lại tổng về không.",
+  moneyDone: "Đã dừng đếm. Tổng là {total}.",
+  moneyStopped: "Đã dừng đếm.",
+  moneyProgress: "{total} · {count} tờ",
+  moneyAmount: "{amount} {currency}",
+  moneyNoteSide: "{value}, {side}",
+  moneyFront: "mặt trước",
+  moneyBack: "mặt sau",
+  moneyAnd: " và ",
+  currencyVND: "đồng",
+  currencyUSD: "đô la",
+  currencyEUR: "euro",
+
+  routeSearching: "Đang tìm {place}...",
+  routeNotFound: "Tôi không tìm thấy {place}.",
+  routeFailed: "Tôi không lấy được chỉ đường lúc này. Vui lòng thử lại.",
+  routeNoLocation: "Tôi chưa biết vị trí của bạn. Hãy bật định vị.",
+  routeStarted: "Đường đến {place}: {distance}, khoảng {minutes} phút. {instruction}.",
+  routePrepare: "Còn {distance} nữa, {action}.",
+  routeNow: "Bây giờ {action}.",
+  routeArrived: "Bạn đã đến {place}.",
+  routeArriving: "Còn {distance} nữa là đến {place}.",
+  routeArriveAt: "đến {place}",
+  routeOffRoute: "Bạn đã đi lệch đường. Đang tìm đường mới.",
+  routeStatus: "Còn {distance} đến {place}. Tiếp theo, sau {next}: {instruction}.",
+  routeNone: "Bạn chưa chọn điểm đến. Hãy nói đưa tôi đến, rồi tên địa điểm.",
+  routeCancelled: "Đã hủy chỉ đường.",
+  routeProgress: "{place} · {distance}",
+  routeDepart: "bắt đầu đi",
+  routeDepartOnto: "đi theo {street}",
+  routeOnto: "{action} vào {street}",
+  routeLeft: "rẽ trái",
+  routeRight: "rẽ phải",
+  routeSlightLeft: "chếch sang trái",
+  routeSlightRight: "chếch sang phải",
+  routeSharpLeft: "quặt gấp sang trái",
+  routeSharpRight: "quặt gấp sang phải",
+  routeStraight: "đi thẳng",
+  routeUturn: "quay lại",
+  routeMeters: "{meters} mét",
+  routeKilometers: "{km} ki-lô-mét",
+  routeFeet: "{feet} feet",
+  routeSteps: "{steps} bước",
+
+  placeSaved: "Đã lưu nơi này là {label}.",
+  placeSavedWithPhoto: "Đã lưu nơi này là {label}, kèm ảnh.",
+  placeExists: "Bạn đã có nơi tên {label}. Hãy nói đổi tên để thay đổi.",
+  placeNearby: "Gần đây: {label}, khoảng {distance}.",
+  placeList: "Bạn có {count} nơi đã lưu: {labels}.",
+  placeListOne: "Bạn có một nơi đã lưu: {labels}.",
+  placeListEmpty: "Bạn chưa lưu nơi nào. Hãy nói nhớ nơi này là, rồi đặt tên.",
+  placeListNearest: "Gần nhất là {label}, cách {distance}.",
+  placeNotFound: "Tôi không có nơi nào tên {label}.",
+  placeRenamed: "Đã đổi tên {from} thành {to}.",
+  placeDeleted: "Đã xóa {label}.",
+  placeDeleteConfirm: "Ý bạn là {label}? Nói có để xóa, hoặc không để giữ lại.",
+  placeKept: "Đã giữ lại {label}.",
+
+  sosCountdown: "Sẽ gửi SOS đến người liên hệ khẩn cấp sau {seconds} giây. Nói hủy hoặc chạm màn hình nếu bạn không sao.",
+  sosFallCountdown: "Bạn bị ngã à? Sẽ gửi SOS sau {seconds} giây. Nói tôi không sao hoặc chạm màn hình để hủy.",
+  sosTick: "{seconds}",
+  sosSent: "Đã gửi SOS kèm vị trí của bạn. Tôi sẽ gửi lại mỗi phút. Hãy nói tôi không sao khi bạn an toàn.",
+  sosSendFailed: "Tôi không liên lạc được với người liên hệ khẩn cấp. Tôi sẽ thử lại mỗi phút.",
+  sosNotConfigured: "Cảnh báo khẩn cấp chưa được cài đặt nên chưa ai được liên lạc. Hãy gọi trực tiếp dịch vụ cấp cứu nếu bạn cần giúp.",
+  sosCancelled: "Đã hủy SOS.",
+  sosResolved: "May quá. Tôi đã báo cho người liên hệ là bạn an toàn.",
+  sosTitle: "SOS",
+  sosSendingIn: "Gửi sau {seconds}",
+  sosAlerted: "Đã báo người liên hệ khẩn cấp",
+  sosTapCancel: "Chạm vào bất kỳ đâu để hủy",
+  sosTapSafe: "Chạm khi bạn đã an toàn",
+
+  helperCallStarting: "Đang gọi người hỗ trợ...",
+  helperCallWaiting: "Mã cuộc gọi của bạn là {digits}. Chạm vào biểu tượng cuộc gọi ở trên cùng để gửi đường dẫn cho người hỗ trợ. Dẫn đường tạm dừng cho đến khi kết thúc cuộc gọi.",
+  helperCallKnock: "{name} muốn tham gia cuộc gọi và xem camera của bạn. Nói chấp nhận hoặc từ chối.",
+  helperCallDeclined: "Đã không cho người đó vào và đường dẫn cũ không còn dùng được. Chạm vào biểu tượng cuộc gọi để gửi đường dẫn mới cho người hỗ trợ.",
+  helperLinkCopied: "Đã sao chép đường dẫn cuộc gọi. Hãy dán cho người hỗ trợ.",
+  helperLinkFailed: "Tôi không thể chia sẻ đường dẫn cuộc gọi.",
+  helperCallConnected: "Người hỗ trợ đã kết nối và có thể thấy camera của bạn.",
+  helperCallLeft: "Người hỗ trợ bị mất kết nối. Đang chờ họ quay lại.",
+  helperCallEnded: "Đã kết thúc cuộc gọi.",
+  helperCallEndedNav: "Đã kết thúc cuộc gọi. Tiếp tục dẫn đường.",
+  helperCallFailed: "Tôi không thể bắt đầu cuộc gọi. Có thể không kết nối được máy chủ hỗ trợ.",
+  helperCallNone: "Bạn không ở trong cuộc gọi nào.",
+  helperCallCode: "Mã gọi {code}",
+  helperCallLive: "Đã kết nối người hỗ trợ",
+  helperCallKnocking: "{name} đang xin tham gia",
+  shareHelperLink: "Chia sẻ đường dẫn cuộc gọi",
+
+  usage: "Mức sử dụng",
+  usageCalls: "Lượt gọi",
+  usageTokens: "Token",
+  usageCost: "Chi phí",
+  usageLatency: "Độ trễ TB",
+  usageRetries: "Thử lại",
+  usageFailovers: "Chuyển dự phòng",
+  usageErrors: "Lỗi",
+  usageDegraded: "Hạ cấp",
+  usageBudget: "Ngân sách ngày",
+  usageNoBudget: "Chưa đặt ngân sách ngày.",
+  usageOverBudget: "Đã hết ngân sách: dùng mô hình nhanh, rẻ hơn đến ngày mai.",
+  usagePurpose: "Mục đích",
+  usageRecent: "Lượt gọi gần đây",
+  purposeRouter: "Định tuyến",
+  purposeNavigation: "Dẫn đường",
+  purposeAssistant: "Câu hỏi",
+  purposeDocument: "Tài liệu",
+  purposeMoney: "Tiền",
+  purposeLive: "Trò chuyện trực tiếp",
+  budgetExceeded: "Đã hết ngân sách sử dụng hôm nay. Câu trả lời có thể ít chi tiết hơn cho đến ngày mai.",
+
+  wakeListening: "Nói \"{phrase}\" để hỏi",
+  wakeHeard: "Vâng? Tôi đang nghe.",
+
+  settings: "Cài đặt",
+  settingsOpened: "Cài đặt. Hãy nói tiếp, trước, tăng, giảm hoặc đóng.",
+  settingsClosed: "Đã lưu cài đặt.",
+  settingsReset: "Đã khôi phục cài đặt mặc định.",
+  reset: "Đặt lại",
+  settingValue: "{label}: {value}",
+  settingSpeechRate: "Tốc độ nói",
+  settingPitch: "Cao độ giọng",
+  settingVolume: "Âm lượng",
+  settingVoice: "Giọng đọc",
+  settingVerbosity: "Mức chi tiết",
+  settingDistanceUnit: "Đơn vị khoảng cách",
+  settingDirectionStyle: "Cách chỉ hướng",
+  settingStride: "Độ dài bước chân",
+  settingPlaceRadius: "Khoảng cách báo nơi đã lưu",
+  settingFastestScan: "Quét nhanh nhất khi đi",
+  settingSlowestScan: "Quét chậm nhất khi đứng yên",
+  settingFallDetection: "Phát hiện té ngã",
+  settingFeedbackChannel: "Phản hồi dẫn đường",
+  channelSpeech: "chỉ giọng nói",
+  channelHaptics: "chỉ rung",
+  channelBoth: "giọng nói và rung",
+  settingEarcons: "Âm báo hướng",
+  earconsOff: "tắt",
+  earconsAlongside: "kèm giọng nói",
+  earconsInstead: "thay cho giọng nói",
+  settingWakeWord: "Câu gọi",
+  wakeWordOff: "tắt, chạm để hỏi",
+  fallDetectionOn: "bật, hỏi trước khi gọi trợ giúp",
+  fallDetectionOff: "tắt",
+  sosNotConfiguredSetting: "{value}. Cảnh báo: cảnh báo khẩn cấp chưa được cài đặt, SOS sẽ không đến được ai",
+  voiceAutomatic: "tự động",
+  verbosityBrief: "ngắn gọn",
+  verbosityNormal: "bình thường",
+  verbosityDetailed: "chi tiết",
+  unitSteps: "bước",
+  unitMeters: "mét",
+  unitFeet: "feet",
+  styleClock: "mặt đồng hồ",
+  styleLeftRight: "trái và phải",
+  strideValue: "{meters} mét",
+  radiusValue: "trong vòng {meters} mét",
+  scanIntervalValue: "mỗi {seconds} giây",
+
+  startLive: "BẮT ĐẦU",
+  stopLive: "DỪNG",
+  talk: "TRÒ CHUYỆN",
+  endTalk: "KẾT THÚC",
+  askAi: "HỎI AI",
+};
+
+const STRINGS: Record<Locale, Record<StringKey, string>> = {
+  'en-US': EN,
+  'vi-VN': VI,
+};
+
+const STORAGE_KEY = 'blindeye.locale';
+
+const isLocale = (value: any): value is Locale =>
+  SUPPORTED_LOCALES.some(l => l.code === value);
+
+const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) { }
+
+  // First run: follow the browser if we support its language
+  const browser = typeof navigator !== 'undefined' ? navigator.language : '';
+  return browser.toLowerCase().startsWith('vi') ? 'vi-VN' : 'en-US';
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<(locale: Locale) => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+export const getLocaleInfo = (locale: Locale = currentLocale): LocaleInfo =>
+  SUPPORTED_LOCALES.find(l => l.code === locale) || SUPPORTED_LOCALES[0];
+
+export const setLocale = (locale: Locale) => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try { localStorage.setItem(STORAGE_KEY, locale); } catch (e) { }
+  listeners.forEach(listener => listener(locale));
+};
+
+/**
+ * Cycles to the next supported locale (HUD language button).
+ */
+export const nextLocale = (): Locale => {
+  const index = SUPPORTED_LOCALES.findIndex(l => l.code === currentLocale);
+  return SUPPORTED_LOCALES[(index + 1) % SUPPORTED_LOCALES.length].code;
+};
+
+export const subscribeLocale = (listener: (locale: Locale) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Localized string with {placeholder} substitution.
+ */
+export const t = (key: StringKey, params?: Record<string, string | number>): string => {
+  const template = STRINGS[currentLocale][key] ?? EN[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
+
+/**
+ * Rule appended to every model prompt so answers come back in the user's language.
+ */
+export const responseLanguageRule = (): string =>
+  `LANGUAGE: Always answer in ${getLocaleInfo().language}, whatever language this prompt is written in.`;
@@ -1,17 +1,77 @@
 import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
-import { base64ToUint8Array, decodeAudioData, float32ToB64PCM } from "./audioUtils";
+import { base64ToUint8Array, createAudioContext, decodeAudioData, int16ToB64PCM } from "./audioUtils";
+import { AudioChunk, MicCapture, startMicCapture } from "./audioCapture";
+import { VoiceActivityDetector } from "./voiceActivity";
+import { getLocaleInfo, t } from "./i18n";
+import { stylePromptRules } from "./preferences";
+import { getLiveModel } from "./modelRegistry";
+import { withTimeout } from "./modelCall";
+import { recordModelCall } from "./telemetry";
+import { geminiUsage } from "./providers/geminiProvider";
 
 const API_KEY = process.env.API_KEY || "";
-// Correct model for Gemini Live API (Native Audio)
-const MODEL_NAME = "gemini-2.5-flash-native-audio-preview-09-2025";
+// Gemini Live API model (native audio), from the model registry
+const LIVE_MODEL = getLiveModel();
+const MODEL_NAME = LIVE_MODEL.id;
+// Chunks of audio kept from before speech was detected (~300ms)
+const PRE_ROLL_CHUNKS = 3;
 
 console.log("🔑 API Key loaded:", API_KEY ? `${API_KEY.substring(0, 10)}...` : "MISSING!");
 
+export type TranscriptRole = 'user' | 'model';
+
+export type LiveStatus =
+  | 'connecting'     // First connection in progress
+  | 'connected'      // Session open, audio flowing
+  | 'reconnecting'   // Connection dropped, retrying with backoff
+  | 'degraded'       // Session open but impaired (mic lost, server about to close)
+  | 'failed'         // Gave up reconnecting
+  | 'disconnected';  // Closed by the app
+
+export interface LiveStatusDetail {
+  attempt?: number;
+  retryInMs?: number;
+  reason?: string;
+  resumed?: boolean;   // Reconnected with the previous conversation context
+}
+
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+};
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed,
+ * half is random, so clients that dropped together do not retry together.
+ */
+export const backoffDelay = (attempt: number, policy: ReconnectPolicy): number => {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(exp / 2 + Math.random() * exp / 2);
+};
+
 interface LiveClientCallbacks {
-  onAudioData: (text: string | null) => void;
-  onStatusChange: (status: 'connected' | 'disconnected' | 'error') => void;
+  // Running transcription of the current turn; null when the turn is over
+  onAudioData: (text: string | null, role: TranscriptRole) => void;
+  onStatusChange: (status: LiveStatus, detail?: LiveStatusDetail) => void;
 }
 
+const buildSystemInstruction = () => `You are a trusted visual companion for a blind person. You are walking alongside them.
+
+RULES:
+- Speak natural ${getLocaleInfo().language}, warm and helpful.
+- PRIORITY: HAZARDS > Obstacles > Path info.
+${stylePromptRules()}
+- Mention floor conditions if relevant.
+
+When the session starts, say: "${t('liveGreeting')}"`;
+
 export class LiveClient {
   private ai: GoogleGenAI;
   private session: any = null;
@@ -20,88 +80,190 @@ export class LiveClient {
   private nextStartTime: number = 0;
   private audioQueue: AudioBufferSourceNode[] = [];
   private mediaStream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private capture: MicCapture | null = null;
+  private vad = new VoiceActivityDetector();
+  private preRoll: Int16Array[] = [];
   private callbacks: LiveClientCallbacks;
   private isConnected: boolean = false;
-
-  constructor(callbacks: LiveClientCallbacks) {
+  private transcripts: Record<TranscriptRole, string> = { user: '', model: '' };
+
+  // Reconnection state
+  private policy: ReconnectPolicy;
+  private closedByUser: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionGeneration: number = 0;
+  private turnStartedAt: number | null = null;
+  private resumptionHandle: string | null = null;
+
+  constructor(callbacks: LiveClientCallbacks, policy: Partial<ReconnectPolicy> = {}) {
     console.log("🔧 Creating LiveClient with API key:", API_KEY ? "Present" : "Missing");
     this.ai = new GoogleGenAI({ apiKey: API_KEY });
     this.callbacks = callbacks;
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...policy };
+  }
+
+  private setStatus(status: LiveStatus, detail?: LiveStatusDetail) {
+    this.callbacks.onStatusChange(status, detail);
   }
 
   public async connect() {
-    try {
-      console.log("📡 Attempting to connect to model:", MODEL_NAME);
-      this.callbacks.onStatusChange('connected'); // Optimistic update
+    this.closedByUser = false;
+    this.reconnectAttempt = 0;
+    this.resumptionHandle = null;
+    this.setStatus('connecting');
 
+    try {
       // 1. Initialize Output Audio (Speaker) immediately
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      this.outputAudioContext = new AudioContextClass({ sampleRate: 24000 });
+      this.outputAudioContext = createAudioContext(24000);
 
       // Resume immediately (browser policy)
       if (this.outputAudioContext.state === 'suspended') {
         await this.outputAudioContext.resume();
       }
       this.nextStartTime = this.outputAudioContext.currentTime;
+    } catch (error: any) {
+      console.error("❌ Audio output init failed:", error);
+      this.setStatus('failed', { reason: 'audio output unavailable' });
+      this.teardown();
+      return;
+    }
+
+    // 2. Connect to Gemini Live
+    await this.openSession();
+  }
+
+  /**
+   * Opens a Live session, resuming the previous conversation if the server
+   * gave us a resumption handle.
+   */
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration && !this.closedByUser;
+    const resuming = !!this.resumptionHandle;
+    let connecting: Promise<any> | null = null;
+
+    try {
+      console.log("📡 Attempting to connect to model:", MODEL_NAME, resuming ? "(resuming)" : "");
 
-      // 2. Connect to Gemini Live
-      this.session = await this.ai.live.connect({
+      connecting = this.ai.live.connect({
         model: MODEL_NAME,
         config: {
           responseModalities: [Modality.AUDIO],
-          systemInstruction: `You are a trusted visual companion for a blind person. You are walking alongside them.
-
-RULES:
-- Speak natural English, warm and helpful.
-- PRIORITY: HAZARDS > Obstacles > Path info.
-- Use clock-face directions: 12 o'clock (front), 3 o'clock (right), 9 o'clock (left).
-- Estimate distances in steps or meters.
-- Mention floor conditions if relevant.
-- Keep it concise (max 2 sentences usually).
-
-When the session starts, say: "I'm with you. Ready to guide."`,
+          systemInstruction: buildSystemInstruction(),
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
-          }
+          },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          // Turn-taking is driven by our own VAD (activityStart/activityEnd)
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+          sessionResumption: { handle: this.resumptionHandle || undefined }
         },
         callbacks: {
           onopen: () => {
             console.log(">> Gemini Live Connected - Session started!");
-            this.isConnected = true;
-            this.startAudioInput();
           },
           onmessage: (msg: LiveServerMessage) => {
-            this.handleServerMessage(msg);
+            if (isCurrent()) this.handleServerMessage(msg);
           },
           onclose: (event: any) => {
-            console.log(">> Gemini Live Closed");
-            this.isConnected = false;
-            this.disconnect();
+            console.log(">> Gemini Live Closed", event?.reason || "");
+            if (isCurrent()) this.handleConnectionLoss(event?.reason || 'closed');
           },
           onerror: (err: any) => {
             console.error(">> Gemini Live Error:", err);
-            this.callbacks.onStatusChange('error');
-            this.disconnect();
+            if (isCurrent()) this.handleConnectionLoss('error');
           }
         }
       });
+      const session = await withTimeout(connecting, LIVE_MODEL.timeoutMs, MODEL_NAME);
+
+      if (!isCurrent()) {
+        try { session.close(); } catch (e) { }
+        return;
+      }
+
+      this.session = session;
+      this.isConnected = true;
+      // A new session has no open activity; the next speech starts a fresh one
+      this.vad.reset();
+      this.preRoll = [];
+      const wasReconnecting = this.reconnectAttempt > 0;
+      this.reconnectAttempt = 0;
+      this.setStatus('connected', wasReconnecting ? { resumed: resuming } : undefined);
+
+      // Mic keeps running across reconnects; only start it once
+      if (!this.inputAudioContext) this.startAudioInput();
 
     } catch (error: any) {
       console.error("❌ Connection failed:", error);
-      this.callbacks.onStatusChange('error');
-      this.disconnect();
+      if (!isCurrent()) return;
+      // Disown this attempt: a session that still opens after a timeout is closed, not used
+      this.sessionGeneration++;
+      connecting?.then(late => { try { late.close(); } catch (e) { } }, () => { });
+      this.handleConnectionLoss(error?.message || 'connect failed');
     }
   }
 
-  public disconnect() {
+  private handleConnectionLoss(reason: string) {
+    if (this.closedByUser) return;
+
     this.isConnected = false;
+    this.closeSession();
 
-    // 1. Close Session
+    // Drop half-played audio and half-finished transcripts from the lost turn
+    this.stopAudioQueue();
+    this.endTurn();
+    this.turnStartedAt = null;
+
+    if (this.reconnectAttempt >= this.policy.maxAttempts) {
+      console.error(`❌ Giving up after ${this.reconnectAttempt} reconnect attempts`);
+      this.setStatus('failed', { attempt: this.reconnectAttempt, reason });
+      this.teardown();
+      return;
+    }
+
+    const attempt = ++this.reconnectAttempt;
+    const retryInMs = backoffDelay(attempt, this.policy);
+    console.warn(`🔁 Live connection lost (${reason}). Reconnect attempt ${attempt} in ${retryInMs}ms`);
+    this.setStatus('reconnecting', { attempt, retryInMs, reason });
+
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSession();
+    }, retryInMs);
+  }
+
+  private closeSession() {
     if (this.session) {
       try { this.session.close(); } catch (e) { }
       this.session = null;
     }
+  }
+
+  public disconnect() {
+    this.closedByUser = true;
+    this.resumptionHandle = null;
+    this.teardown();
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Releases the session, mic and audio contexts.
+   */
+  private teardown() {
+    this.isConnected = false;
+    this.sessionGeneration++;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    // 1. Close Session
+    this.closeSession();
 
     // 2. Stop Mic Stream (CRITICAL for switching modes)
     if (this.mediaStream) {
@@ -113,11 +275,12 @@ When the session starts, say: "I'm with you. Ready to guide."`,
     }
 
     // 3. Clean up Input Context
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor.onaudioprocess = null;
-      this.processor = null;
+    if (this.capture) {
+      this.capture.stop();
+      this.capture = null;
     }
+    this.vad.reset();
+    this.preRoll = [];
     if (this.inputAudioContext) {
       this.inputAudioContext.close().catch(() => { });
       this.inputAudioContext = null;
@@ -129,8 +292,52 @@ When the session starts, say: "I'm with you. Ready to guide."`,
       this.outputAudioContext.close().catch(() => { });
       this.outputAudioContext = null;
     }
+  }
+
+  /**
+   * Only speech segments go to the server, bracketed by activity start/end,
+   * with a short pre-roll so the first syllable is not clipped.
+   */
+  private handleMicChunk = (chunk: AudioChunk) => {
+    if (!this.session || !this.isConnected) return;
+
+    const event = this.vad.process(chunk.rms);
+
+    if (event === 'start') {
+      this.sendRealtime({ activityStart: {} });
+      this.preRoll.forEach(pcm => this.sendAudio(pcm));
+      this.preRoll = [];
+    }
+
+    if (this.vad.isSpeaking || event === 'end') {
+      this.sendAudio(chunk.pcm);
+    } else {
+      this.preRoll.push(chunk.pcm);
+      if (this.preRoll.length > PRE_ROLL_CHUNKS) this.preRoll.shift();
+    }
+
+    if (event === 'end') {
+      this.sendRealtime({ activityEnd: {} });
+      // The user has finished; the reply's latency runs from here
+      this.turnStartedAt = Date.now();
+    }
+  };
 
-    this.callbacks.onStatusChange('disconnected');
+  private sendAudio(pcm: Int16Array) {
+    this.sendRealtime({
+      media: {
+        mimeType: "audio/pcm;rate=16000",
+        data: int16ToB64PCM(pcm)
+      }
+    });
+  }
+
+  private sendRealtime(input: any) {
+    try {
+      this.session?.sendRealtimeInput(input);
+    } catch (err) {
+      // connection might have dropped
+    }
   }
 
   private stopAudioQueue() {
@@ -144,9 +351,8 @@ When the session starts, say: "I'm with you. Ready to guide."`,
     if (!this.isConnected || !this.session) return;
 
     try {
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
       // Use 16kHz for Gemini Input
-      this.inputAudioContext = new AudioContextClass({ sampleRate: 16000 });
+      this.inputAudioContext = createAudioContext(16000);
 
       const stream = await navigator.mediaDevices.getUserMedia({
         audio: {
@@ -159,38 +365,13 @@ When the session starts, say: "I'm with you. Ready to guide."`,
       });
       this.mediaStream = stream;
 
-      const source = this.inputAudioContext.createMediaStreamSource(stream);
-      this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-
-      this.processor.onaudioprocess = (e) => {
-        if (!this.session || !this.isConnected) return;
-
-        const inputData = e.inputBuffer.getChannelData(0);
-        const b64Data = float32ToB64PCM(inputData);
-
-        try {
-          this.session.sendRealtimeInput({
-            media: {
-              mimeType: "audio/pcm;rate=16000",
-              data: b64Data
-            }
-          });
-        } catch (err) {
-          // connection might have dropped
-        }
-      };
-
-      source.connect(this.processor);
-
-      // Keep processor alive
-      const mute = this.inputAudioContext.createGain();
-      mute.gain.value = 0;
-      this.processor.connect(mute);
-      mute.connect(this.inputAudioContext.destination);
+      this.capture = await startMicCapture(this.inputAudioContext, stream, this.handleMicChunk);
+      console.log(`🎙️ Mic capture via ${this.capture.kind}`);
 
     } catch (err) {
+      // The guide can still see and speak, but cannot hear the user
       console.error("Mic Access Error", err);
-      this.disconnect();
+      this.setStatus('degraded', { reason: 'microphone unavailable' });
     }
   }
 
@@ -211,18 +392,77 @@ When the session starts, say: "I'm with you. Ready to guide."`,
     }
   }
 
+  private emitTranscript(role: TranscriptRole, chunk?: string) {
+    if (!chunk) return;
+    this.transcripts[role] += chunk;
+    this.callbacks.onAudioData(this.transcripts[role].trim(), role);
+  }
+
+  private endTurn() {
+    (Object.keys(this.transcripts) as TranscriptRole[]).forEach(role => {
+      if (this.transcripts[role]) this.callbacks.onAudioData(null, role);
+      this.transcripts[role] = '';
+    });
+  }
+
+  /**
+   * Live sessions are metered per reply, from the usage the server attaches to
+   * its messages; the latency recorded runs from the end of the user's speech.
+   * Usage can arrive after turnComplete, so the start is only cleared once recorded.
+   */
+  private recordUsage(message: LiveServerMessage) {
+    const usage = geminiUsage(message.usageMetadata);
+    if (!usage) return;
+    const now = Date.now();
+    recordModelCall({
+      timestamp: now,
+      purpose: 'live',
+      provider: 'gemini',
+      model: MODEL_NAME,
+      tier: 'fast',   // Live has one model; it isn't routed or degraded by the budget
+      degraded: false,
+      latencyMs: now - (this.turnStartedAt ?? now),
+      attempt: 1,
+      failover: false,
+      usage,
+    });
+    this.turnStartedAt = null;
+  }
+
   private async handleServerMessage(message: LiveServerMessage) {
+    // Keep the latest handle so a reconnect continues the same conversation
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
+
+    if (message.goAway) {
+      // Server will close soon; the close triggers a resumed reconnect
+      console.warn(">> GoAway received, time left:", message.goAway.timeLeft);
+      this.setStatus('degraded', { reason: 'server closing soon' });
+    }
+
     const serverContent = message.serverContent;
+    this.recordUsage(message);
+
+    this.emitTranscript('user', serverContent?.inputTranscription?.text);
+    this.emitTranscript('model', serverContent?.outputTranscription?.text);
 
     if (serverContent?.interrupted) {
+      // Barge-in: the user spoke over the guide, drop queued audio
       console.log(">> Interrupted");
       this.stopAudioQueue();
       if (this.outputAudioContext) {
         this.nextStartTime = this.outputAudioContext.currentTime;
       }
+      this.endTurn();
       return;
     }
 
+    if (serverContent?.turnComplete) {
+      this.endTurn();
+    }
+
     const audioData = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     const textData = serverContent?.modelTurn?.parts?.[0]?.text;
 
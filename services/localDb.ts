@@ -0,0 +1,49 @@
+/**
+ * The app's single IndexedDB database. Every store is created here so that
+ * version upgrades happen in one place.
+ */
+const DB_NAME = 'blind-eye';
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: 'history',       // v1: guidance and answers, indexed by timestamp
+  documents: 'documents',   // v2: scanned documents, indexed by updatedAt
+  places: 'places',         // v3: saved places, indexed by createdAt
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.history)) {
+          const store = db.createObjectStore(STORES.history, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORES.documents)) {
+          const store = db.createObjectStore(STORES.documents, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.places)) {
+          const store = db.createObjectStore(STORES.places, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,84 @@
+import { getVisionProvider, ModelTier, VisionRequest, VisionResponse } from "./visionProvider";
+import { failoverChain, getModelInfo, ModelCapability } from "./modelRegistry";
+import { budgetedTier, CallPurpose, recordModelCall } from "./telemetry";
+
+export interface CallInfo {
+  attempt?: number;     // 2+ when retrying the same request
+  failover?: boolean;   // A better tier failed and this is the fallback
+}
+
+/**
+ * Rejects if the promise takes longer than `ms`. The message is in seconds so
+ * it can't be mistaken for an HTTP 500 by the navigation retry check.
+ */
+export const withTimeout = <T>(promise: Promise<T>, ms: number, what: string): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${what} did not answer within ${ms / 1000} s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Every model call goes through here: over the daily budget pro requests are
+ * sent to the fast tier, calls are cut off at the model's registered timeout,
+ * and each call is recorded for the usage dashboard.
+ */
+export const callModel = async (purpose: CallPurpose, request: VisionRequest, info: CallInfo = {}): Promise<VisionResponse> => {
+  const provider = getVisionProvider();
+  const tier = budgetedTier(request.tier);
+  const model = getModelInfo(provider.models[tier]);
+  const call = {
+    timestamp: Date.now(),
+    purpose,
+    provider: provider.name,
+    tier,
+    degraded: tier !== request.tier,
+    attempt: info.attempt ?? 1,
+    failover: !!info.failover,
+  };
+  if (call.degraded) console.log(`💸 Daily budget reached: ${purpose} uses ${model.id}`);
+
+  try {
+    const response = await withTimeout(provider.generate({ ...request, tier }), model.timeoutMs, model.id);
+    recordModelCall({ ...call, model: response.model, latencyMs: Date.now() - call.timestamp, usage: response.usage });
+    return response;
+  } catch (error: any) {
+    recordModelCall({ ...call, model: model.id, latencyMs: Date.now() - call.timestamp, error: String(error?.message || error) });
+    throw error;
+  }
+};
+
+/**
+ * Runs a request down the registry's failover chain for `tier` (pro, then fast),
+ * moving on when a call throws. Tiers that the budget already maps onto one
+ * tried before are skipped. Throws the last error if every tier fails.
+ */
+export const withFailover = async <T>(
+  purpose: CallPurpose,
+  tier: ModelTier,
+  run: (tier: ModelTier, info: CallInfo) => Promise<T>,
+  needs?: ModelCapability[]
+): Promise<T> => {
+  const { models } = getVisionProvider();
+  const chain = failoverChain(tier, models, needs);
+  if (!chain.length) throw new Error(`No ${tier} model for ${purpose} with ${needs?.join(', ')}`);
+
+  const tried = new Set<ModelTier>();
+  let lastError: any;
+  for (const next of chain) {
+    const effective = budgetedTier(next);
+    if (tried.has(effective)) continue;
+
+    if (tried.size > 0) console.log(`🔄 Retrying with ${models[effective]}...`);
+    tried.add(effective);
+    try {
+      return await run(next, { failover: tried.size > 1 });
+    } catch (error: any) {
+      console.warn(`⚠️ ${purpose} with ${models[effective]} failed: ${error?.message || error}`);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
@@ -0,0 +1,128 @@
+import { ModelTier } from "./visionProvider";
+
+export type ModelCapability =
+  | 'vision'       // Takes camera frames
+  | 'json'         // Can be held to a JSON-only answer
+  | 'tools'        // Used with grounding tools (Google Maps) for location questions
+  | 'liveAudio';   // Streams speech in and out (Live conversation)
+
+// Relative price, shown on the HUD badge; exact prices are in `price`
+export type CostTier = 'low' | 'medium' | 'high';
+
+export interface ModelInfo {
+  id: string;                  // Name sent to the backend
+  label: string;               // Short name for the HUD and status line
+  capabilities: ModelCapability[];
+  costTier: CostTier;
+  timeoutMs: number;           // A call is given up (and failed over) after this long
+  price?: { input: number; output: number };   // USD per million tokens, for the usage dashboard
+}
+
+// Models not listed here (e.g. VISION_FAST_MODEL on a self-hosted endpoint) get these
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_CAPABILITIES: ModelCapability[] = ['vision', 'json'];
+
+export const MODEL_REGISTRY: ModelInfo[] = [
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Flash',
+    capabilities: ['vision', 'json'],
+    costTier: 'low',
+    timeoutMs: 20000,
+    price: { input: 0.30, output: 2.50 },
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    label: 'Flash Lite',
+    capabilities: ['vision', 'json'],
+    costTier: 'low',
+    timeoutMs: 15000,
+    price: { input: 0.10, output: 0.40 },
+  },
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    capabilities: ['vision', 'json', 'tools'],
+    costTier: 'high',
+    timeoutMs: 60000,
+    price: { input: 1.25, output: 10.00 },
+  },
+  {
+    id: 'gemini-3-pro-preview',
+    label: 'Gemini 3 Pro',
+    capabilities: ['vision', 'json', 'tools'],
+    costTier: 'high',
+    timeoutMs: 60000,
+    price: { input: 2.00, output: 12.00 },
+  },
+  {
+    id: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    label: 'Flash Live',
+    capabilities: ['vision', 'liveAudio'],
+    costTier: 'medium',
+    timeoutMs: 15000,   // To open the session
+    price: { input: 3.00, output: 12.00 },   // Audio rates: a Live session is mostly audio
+  },
+  {
+    id: 'gpt-4o-mini',
+    label: 'GPT-4o mini',
+    capabilities: ['vision', 'json'],
+    costTier: 'low',
+    timeoutMs: 20000,
+    price: { input: 0.15, output: 0.60 },
+  },
+  {
+    id: 'gpt-4o',
+    label: 'GPT-4o',
+    capabilities: ['vision', 'json'],
+    costTier: 'high',
+    timeoutMs: 60000,
+    price: { input: 2.50, output: 10.00 },
+  },
+  { id: 'mock-fast', label: 'Mock', capabilities: ['vision', 'json'], costTier: 'low', timeoutMs: 10000 },
+  { id: 'mock-pro', label: 'Mock Pro', capabilities: ['vision', 'json'], costTier: 'high', timeoutMs: 10000 },
+];
+
+/**
+ * Model behind each tier, per provider. The OpenAI-compatible provider can
+ * override both with VISION_FAST_MODEL and VISION_PRO_MODEL.
+ */
+export const TIER_MODELS: Record<'gemini' | 'openai' | 'mock', Record<ModelTier, string>> = {
+  gemini: { fast: 'gemini-2.5-flash', pro: 'gemini-3-pro-preview' },
+  openai: { fast: 'gpt-4o-mini', pro: 'gpt-4o' },
+  mock: { fast: 'mock-fast', pro: 'mock-pro' },
+};
+
+/**
+ * Tiers to try in order when a call fails: a pro answer that can't be had is
+ * better replaced by a fast one than by silence.
+ */
+const FAILOVER_CHAINS: Record<ModelTier, ModelTier[]> = {
+  pro: ['pro', 'fast'],
+  fast: ['fast'],
+};
+
+export const getModelInfo = (id: string): ModelInfo =>
+  MODEL_REGISTRY.find(model => model.id === id) ||
+  { id, label: id, capabilities: DEFAULT_CAPABILITIES, costTier: 'medium', timeoutMs: DEFAULT_TIMEOUT_MS };
+
+export const hasCapability = (id: string, capability: ModelCapability): boolean =>
+  getModelInfo(id).capabilities.includes(capability);
+
+/**
+ * Failover chain for a tier, leaving out tiers whose model lacks a needed capability.
+ */
+export const failoverChain = (
+  tier: ModelTier,
+  models: Record<ModelTier, string>,
+  needs: ModelCapability[] = DEFAULT_CAPABILITIES
+): ModelTier[] => FAILOVER_CHAINS[tier].filter(t => needs.every(c => hasCapability(models[t], c)));
+
+/**
+ * Model for the Live conversation: the first registered one that streams audio.
+ */
+export const getLiveModel = (): ModelInfo => {
+  const model = MODEL_REGISTRY.find(m => m.capabilities.includes('liveAudio'));
+  if (!model) throw new Error("No model with live audio in the registry");
+  return model;
+};
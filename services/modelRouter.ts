@@ -0,0 +1,111 @@
+import { getVisionProvider, ModelTier } from "./visionProvider";
+import { getBudgetStatus } from "./telemetry";
+import { getLocaleInfo, Locale } from "./i18n";
+import { containsPhrase } from "./textMatch";
+import { KeywordRoutingPolicy } from "./providers/keywordRouter";
+import { ClassifierRoutingPolicy } from "./providers/classifierRouter";
+import { LlmRoutingPolicy } from "./providers/llmRouter";
+
+export type RoutingPolicyName = 'keywords' | 'classifier' | 'llm';
+
+export interface TierChoice {
+  tier: ModelTier;
+  reason: string;              // Why, for the logs and the HUD badge
+}
+
+export interface RoutingDecision extends TierChoice {
+  model: string;               // Registry id of the model that will answer
+  policy: RoutingPolicyName | 'budget';
+}
+
+/**
+ * Decides whether a question needs the pro tier or the fast one is enough.
+ */
+export interface RoutingPolicy {
+  readonly name: RoutingPolicyName;
+  choose(query: string): Promise<TierChoice>;
+}
+
+/**
+ * Words that point at a hard question, per language; queries are matched
+ * against English and the user's own language.
+ */
+const ROUTING_KEYWORDS: Record<Locale, { reading: string[]; reasoning: string[]; quick: string[] }> = {
+  'en-US': {
+    reading: ['read', 'scan', 'document', 'text', 'menu', 'receipt', 'book', 'sign'],
+    reasoning: ['explain', 'analyze', 'compare', 'navigate', 'plan', 'calculate', 'translate', 'detail', 'history'],
+    quick: ['in front', 'path clear', 'what color', 'is there', 'anyone'],
+  },
+  'vi-VN': {
+    reading: ['đọc', 'văn bản', 'tài liệu', 'thực đơn', 'hóa đơn', 'sách', 'biển'],
+    reasoning: ['giải thích', 'phân tích', 'so sánh', 'tính', 'dịch', 'chi tiết'],
+    quick: ['trước mặt', 'màu gì', 'có ai', 'đường trống'],
+  },
+};
+
+export type KeywordGroup = keyof typeof ROUTING_KEYWORDS['en-US'];
+
+/**
+ * First keyword of the groups found in the (lowercased) query as whole words, if any.
+ */
+export const findRoutingKeyword = (query: string, ...groups: KeywordGroup[]): string | undefined => {
+  const { code } = getLocaleInfo();
+  const locales: Locale[] = code === 'en-US' ? ['en-US'] : ['en-US', code];
+  for (const locale of locales) {
+    for (const group of groups) {
+      const hit = ROUTING_KEYWORDS[locale][group].find(k => containsPhrase(query, k));
+      if (hit) return hit;
+    }
+  }
+  return undefined;
+};
+
+let policyInstance: RoutingPolicy | null = null;
+
+/**
+ * Builds the policy selected by MODEL_ROUTER (llm | classifier | keywords).
+ * Defaults to the LLM router, which falls back to keywords when it can't answer.
+ */
+const createPolicyFromEnv = (): RoutingPolicy => {
+  const kind = (process.env.MODEL_ROUTER || 'llm').toLowerCase();
+
+  switch (kind) {
+    case 'keywords':
+      return new KeywordRoutingPolicy();
+    case 'classifier':
+      return new ClassifierRoutingPolicy();
+    case 'llm':
+    default:
+      return new LlmRoutingPolicy(new KeywordRoutingPolicy());
+  }
+};
+
+export const getRoutingPolicy = (): RoutingPolicy => {
+  if (!policyInstance) {
+    policyInstance = createPolicyFromEnv();
+    console.log(`🔀 Model routing policy: ${policyInstance.name}`);
+  }
+  return policyInstance;
+};
+
+/**
+ * Swap the active policy at runtime (testing, demos).
+ */
+export const setRoutingPolicy = (policy: RoutingPolicy) => {
+  policyInstance = policy;
+};
+
+/**
+ * Picks the model for a question and says why. Over the daily budget only
+ * the fast tier is used, so no policy (and no router call) is consulted.
+ */
+export const routeQuery = async (query: string): Promise<RoutingDecision> => {
+  const { models } = getVisionProvider();
+  if (getBudgetStatus().exceeded) {
+    return { tier: 'fast', model: models.fast, policy: 'budget', reason: 'daily budget reached' };
+  }
+
+  const policy = getRoutingPolicy();
+  const choice = await policy.choose(query);
+  return { ...choice, model: models[choice.tier], policy: policy.name };
+};
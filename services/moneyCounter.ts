@@ -0,0 +1,91 @@
+import { BanknoteReading, BanknoteSide } from "../types";
+import { getLocale, StringKey, t } from "./i18n";
+
+// Below this the note is not added to the total; the user is asked to show it again
+export const MIN_BANKNOTE_CONFIDENCE = 0.6;
+
+const SIDES: BanknoteSide[] = ['front', 'back', 'unknown'];
+
+// Spoken currency names; other codes are read as the code itself
+const CURRENCY_NAMES: Record<string, StringKey> = {
+  VND: 'currencyVND',
+  USD: 'currencyUSD',
+  EUR: 'currencyEUR',
+};
+
+/**
+ * JSON contract the banknote prompt asks the model to follow.
+ */
+export const BANKNOTE_JSON_SCHEMA = `{
+  "currency": string,
+  "denomination": number,
+  "side": "front" | "back" | "unknown",
+  "confidence": number
+}`;
+
+/**
+ * Parses the model's banknote answer. Returns null if the text is not valid banknote JSON.
+ * A reading with denomination 0 means no note was visible.
+ */
+export const parseBanknote = (raw: string): BanknoteReading | null => {
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  const denomination = Number(data.denomination);
+  const confidence = Number(data.confidence);
+  const currency = typeof data.currency === 'string' ? data.currency.trim().toUpperCase() : '';
+  const visible = Number.isFinite(denomination) && denomination > 0 && !!currency;
+
+  return {
+    currency: visible ? currency : '',
+    denomination: visible ? denomination : 0,
+    side: SIDES.includes(data.side) ? data.side : 'unknown',
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+  };
+};
+
+/**
+ * Amount with its currency name, e.g. "150,000 dong" (digits grouped for the current language).
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  const key = CURRENCY_NAMES[currency];
+  return t('moneyAmount', {
+    amount: amount.toLocaleString(getLocale()),
+    currency: key ? t(key) : currency,
+  });
+};
+
+/**
+ * What is said for one note, e.g. "50,000 dong, front".
+ */
+export const banknoteSpeech = (note: BanknoteReading): string => {
+  const value = formatMoney(note.denomination, note.currency);
+  return note.side === 'unknown' ? value : t('moneyNoteSide', { value, side: t(note.side === 'front' ? 'moneyFront' : 'moneyBack') });
+};
+
+/**
+ * Running total per currency, in the order the currencies were first counted.
+ */
+export type MoneyTally = Record<string, number>;
+
+export const addToTally = (tally: MoneyTally, note: BanknoteReading): MoneyTally => ({
+  ...tally,
+  [note.currency]: (tally[note.currency] || 0) + note.denomination,
+});
+
+/**
+ * The total as spoken, e.g. "150,000 dong" or "150,000 dong and 20 dollars".
+ * Empty string if nothing has been counted.
+ */
+export const tallySpeech = (tally: MoneyTally): string =>
+  Object.entries(tally)
+    .map(([currency, amount]) => formatMoney(amount, currency))
+    .join(t('moneyAnd'));
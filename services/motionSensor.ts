@@ -0,0 +1,82 @@
+// Acceleration magnitude (m/s², gravity included) that counts as a footfall peak
+const STEP_THRESHOLD = 11.5;
+// Humans do not take more than ~4 steps per second
+const MIN_STEP_GAP_MS = 250;
+// Step rate is averaged over this window
+const WINDOW_MS = 5000;
+
+/**
+ * Whether DeviceMotion events can be listened to. iOS asks the user,
+ * which only works from a user gesture.
+ */
+export const requestMotionPermission = async (): Promise<boolean> => {
+  if (typeof window === 'undefined' || !('DeviceMotionEvent' in window)) return false;
+
+  const DME = DeviceMotionEvent as any;
+  if (typeof DME.requestPermission === 'function') {
+    try {
+      const result = await DME.requestPermission();
+      if (result !== 'granted') {
+        console.warn("📳 Motion permission denied");
+        return false;
+      }
+    } catch (e) {
+      console.warn("📳 Motion permission request failed:", e);
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Estimates walking cadence from DeviceMotion events.
+ * Silently reports "stationary" on devices without motion sensors.
+ */
+export class MotionTracker {
+  private stepTimes: number[] = [];
+  private aboveThreshold = false;
+  private listening = false;
+
+  private handleMotion = (event: DeviceMotionEvent) => {
+    const a = event.accelerationIncludingGravity;
+    if (!a || a.x === null || a.y === null || a.z === null) return;
+
+    const magnitude = Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z);
+    const now = Date.now();
+
+    // Count a step on the rising edge of each peak
+    if (magnitude > STEP_THRESHOLD && !this.aboveThreshold) {
+      const last = this.stepTimes[this.stepTimes.length - 1] || 0;
+      if (now - last >= MIN_STEP_GAP_MS) this.stepTimes.push(now);
+    }
+    this.aboveThreshold = magnitude > STEP_THRESHOLD;
+
+    this.stepTimes = this.stepTimes.filter(t => now - t <= WINDOW_MS);
+  };
+
+  public async start() {
+    if (this.listening || !(await requestMotionPermission())) return;
+
+    window.addEventListener('devicemotion', this.handleMotion);
+    this.listening = true;
+  }
+
+  public stop() {
+    if (!this.listening) return;
+    window.removeEventListener('devicemotion', this.handleMotion);
+    this.listening = false;
+    this.stepTimes = [];
+  }
+
+  /**
+   * Steps per minute over the last few seconds.
+   */
+  public getStepRate(now: number = Date.now()): number {
+    const recent = this.stepTimes.filter(t => now - t <= WINDOW_MS);
+    return recent.length * (60000 / WINDOW_MS);
+  }
+
+  public isMoving(now: number = Date.now()): boolean {
+    return this.getStepRate(now) >= 30;
+  }
+}
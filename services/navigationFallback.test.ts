@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NavigationGuidance } from '../types';
+import { FallbackNavigator } from './navigationFallback';
+
+// The real detector loads TensorFlow.js; here it just answers
+vi.mock('./offlineDetector', () => ({
+  OfflineObstacleDetector: class {
+    load = async () => true;
+    detect = async () => ({ pathClear: true, hazards: [], speech: 'offline' });
+  },
+}));
+
+const CLOUD_GUIDANCE: NavigationGuidance = { pathClear: true, hazards: [], speech: 'cloud' };
+
+describe('FallbackNavigator', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('aborts the cloud request once the latency budget is spent', async () => {
+    vi.useFakeTimers();
+    let signal: AbortSignal | undefined;
+    const cloud = vi.fn((_image: string, s: AbortSignal) => {
+      signal = s;
+      return new Promise<null>((_, reject) => s.addEventListener('abort', () => reject(s.reason)));
+    });
+    const fallback = new FallbackNavigator(cloud, { latencyBudgetMs: 1000 });
+
+    const result = fallback.analyze('frame');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(signal?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(signal?.aborted).toBe(true);
+    expect((await result)?.speech).toBe('offline');
+  });
+
+  it('leaves a cloud answer within the budget alone', async () => {
+    let signal: AbortSignal | undefined;
+    const fallback = new FallbackNavigator(async (_image, s) => {
+      signal = s;
+      return CLOUD_GUIDANCE;
+    }, { latencyBudgetMs: 1000 });
+
+    expect((await fallback.analyze('frame'))?.speech).toBe('cloud');
+    expect(signal?.aborted).toBe(false);
+  });
+});
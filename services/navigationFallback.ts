@@ -0,0 +1,109 @@
+import { NavigationGuidance } from "../types";
+import { OfflineObstacleDetector } from "./offlineDetector";
+
+// A cloud answer slower than this is no use to someone walking; use the device instead
+const DEFAULT_LATENCY_BUDGET_MS = Number(process.env.NAV_LATENCY_BUDGET_MS) || 3000;
+// Consecutive cloud failures before we switch (and announce) offline mode
+const FAILURES_BEFORE_OFFLINE = 2;
+// While offline, try the cloud again this often
+const PROBE_INTERVAL_MS = 15000;
+
+interface FallbackNavigatorOptions {
+  latencyBudgetMs?: number;
+  onOfflineChange?: (offline: boolean) => void;
+  onDetectorUnavailable?: () => void;   // There will be no guidance at all if the cloud fails
+}
+
+const TIMED_OUT = Symbol('timeout');
+
+/**
+ * Runs the request with a signal that is aborted once the budget is spent, so a
+ * late cloud call stops instead of finishing (and being billed) in the background.
+ */
+const withinBudget = <T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  return Promise.race([
+    run(controller.signal),
+    new Promise<typeof TIMED_OUT>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort(new Error(`Over the ${ms}ms latency budget`));
+        resolve(TIMED_OUT);
+      }, ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Cloud navigation with an on-device safety net. A frame the cloud can't answer
+ * in time is analysed locally, so the user never gets silence. After repeated
+ * failures (or when the browser reports no network) it stays on the device and
+ * checks back with the cloud every so often.
+ */
+export class FallbackNavigator {
+  private detector = new OfflineObstacleDetector();
+  private consecutiveFailures = 0;
+  private offline = false;
+  private lastProbeAt = 0;
+  private latencyBudgetMs: number;
+
+  constructor(
+    private cloud: (image: string, signal: AbortSignal) => Promise<NavigationGuidance | null>,
+    private options: FallbackNavigatorOptions = {}
+  ) {
+    this.latencyBudgetMs = options.latencyBudgetMs ?? DEFAULT_LATENCY_BUDGET_MS;
+  }
+
+  get isOffline(): boolean {
+    return this.offline;
+  }
+
+  /**
+   * Starts loading the on-device model while the network is still up.
+   */
+  prepare() {
+    this.detector.load().then(ready => {
+      if (!ready) this.options.onDetectorUnavailable?.();
+    });
+  }
+
+  async analyze(image: string): Promise<NavigationGuidance | null> {
+    const networkDown = typeof navigator !== 'undefined' && navigator.onLine === false;
+    const shouldTryCloud = !networkDown && (!this.offline || Date.now() - this.lastProbeAt >= PROBE_INTERVAL_MS);
+
+    if (shouldTryCloud) {
+      if (this.offline) this.lastProbeAt = Date.now();
+
+      const result = await withinBudget(signal => this.cloud(image, signal).catch(() => null), this.latencyBudgetMs);
+      if (result !== TIMED_OUT && result) {
+        this.consecutiveFailures = 0;
+        this.setOffline(false);
+        return result;
+      }
+
+      console.warn(result === TIMED_OUT
+        ? `📦 Cloud navigation over ${this.latencyBudgetMs}ms, using on-device detector`
+        : "📦 Cloud navigation failed, using on-device detector");
+      this.consecutiveFailures++;
+    }
+
+    if (networkDown || this.consecutiveFailures >= FAILURES_BEFORE_OFFLINE) {
+      if (!this.offline) this.lastProbeAt = Date.now();
+      this.setOffline(true);
+    }
+
+    try {
+      return await this.detector.detect(image);
+    } catch (e) {
+      console.error("📦 On-device detection failed:", e);
+      return null;
+    }
+  }
+
+  private setOffline(offline: boolean) {
+    if (this.offline === offline) return;
+    this.offline = offline;
+    console.log(offline ? "📦 Offline mode ON" : "☁️ Back online");
+    this.options.onOfflineChange?.(offline);
+  }
+}
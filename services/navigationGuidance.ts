@@ -0,0 +1,230 @@
+import { Hazard, HazardSeverity, NavigationGuidance } from "../types";
+import { t } from "./i18n";
+import { getPreferences, Verbosity } from "./preferences";
+
+const SEVERITY_RANK: Record<HazardSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+// The spoken sentence stays short: only the most urgent hazards are read out
+const MAX_SPOKEN_HAZARDS: Record<Verbosity, number> = { brief: 1, normal: 2, detailed: 3 };
+
+/**
+ * JSON contract the navigation prompt asks the model to follow.
+ */
+export const NAVIGATION_JSON_SCHEMA = `{
+  "pathClear": boolean,
+  "hazards": [
+    { "type": string, "clock": 1-12, "distanceMeters": number, "severity": "high" | "medium" | "low" }
+  ],
+  "suggestion": string
+}`;
+
+const clampClock = (value: any): number => {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n)) return 12;
+  const wrapped = ((n - 1) % 12 + 12) % 12 + 1;
+  return wrapped;
+};
+
+const toSeverity = (value: any): HazardSeverity => {
+  const v = String(value || '').toLowerCase();
+  if (v === 'high' || v === 'critical' || v === 'danger') return 'high';
+  if (v === 'low' || v === 'info') return 'low';
+  return 'medium';
+};
+
+export const sortHazardsBySeverity = (hazards: Hazard[]): Hazard[] =>
+  [...hazards].sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || a.distanceMeters - b.distanceMeters
+  );
+
+const describeDistance = (hazard: Hazard): string => {
+  if (hazard.distanceSteps <= 1) return t('distanceHere');
+
+  switch (getPreferences().distanceUnit) {
+    case 'meters': {
+      const m = hazard.distanceMeters;
+      return t('distanceMeters', { meters: m < 3 ? Math.round(m * 10) / 10 : Math.round(m) });
+    }
+    case 'feet':
+      return t('distanceFeet', { feet: Math.round(hazard.distanceMeters * 3.28) });
+    case 'steps':
+    default:
+      return t('distanceSteps', { steps: hazard.distanceSteps });
+  }
+};
+
+const describeDirection = (clock: number): string => {
+  if (getPreferences().directionStyle === 'clock') return t('directionClock', { clock });
+
+  if (clock === 12) return t('directionAhead');
+  if (clock <= 2) return t('directionSlightRight');
+  if (clock <= 4) return t('directionRight');
+  if (clock <= 7) return t('directionBehind');
+  if (clock <= 9) return t('directionLeft');
+  return t('directionSlightLeft');
+};
+
+const describeHazard = (hazard: Hazard): string => {
+  const type = hazard.type.charAt(0).toUpperCase() + hazard.type.slice(1);
+  const sentence = t('hazardAt', { type, direction: describeDirection(hazard.clock), distance: describeDistance(hazard) });
+  return hazard.severity === 'high' ? `${t('hazardStop')} ${sentence}` : sentence;
+};
+
+/**
+ * Renders the spoken sentence from the structured guidance.
+ */
+export const renderGuidanceSpeech = (guidance: Omit<NavigationGuidance, 'speech'>): string => {
+  if (guidance.hazards.length === 0) {
+    return guidance.pathClear
+      ? t('pathClear')
+      : (guidance.suggestion || t('scanning'));
+  }
+
+  const { verbosity } = getPreferences();
+  const parts = guidance.hazards.slice(0, MAX_SPOKEN_HAZARDS[verbosity]).map(describeHazard);
+  if (guidance.suggestion && verbosity !== 'brief') parts.push(guidance.suggestion);
+  return parts.join(' ');
+};
+
+/**
+ * Parses the model output into NavigationGuidance.
+ * Returns null if the text is not valid guidance JSON.
+ */
+export const parseNavigationGuidance = (raw: string): NavigationGuidance | null => {
+  // Models sometimes wrap JSON in a markdown fence
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  const { strideLengthMeters } = getPreferences();
+  const hazards: Hazard[] = (Array.isArray(data.hazards) ? data.hazards : [])
+    .filter((h: any) => h && typeof h.type === 'string' && h.type.trim())
+    .map((h: any) => {
+      const distanceMeters = Math.max(0, Number(h.distanceMeters) || 0);
+      return {
+        type: h.type.trim().toLowerCase(),
+        clock: clampClock(h.clock),
+        distanceMeters,
+        distanceSteps: Math.max(1, Math.round(distanceMeters / strideLengthMeters)),
+        severity: toSeverity(h.severity),
+      };
+    });
+
+  const guidance = {
+    hazards: sortHazardsBySeverity(hazards),
+    pathClear: data.pathClear === true && hazards.every(h => h.severity === 'low'),
+    suggestion: typeof data.suggestion === 'string' && data.suggestion.trim() ? data.suggestion.trim() : undefined,
+  };
+
+  return { ...guidance, speech: renderGuidanceSpeech(guidance) };
+};
+
+/**
+ * Wraps legacy free-text output so callers always get the same shape.
+ */
+export const guidanceFromText = (speech: string): NavigationGuidance => ({
+  hazards: [],
+  pathClear: false,
+  speech,
+});
+
+const directionBucket = (clock: number): string => {
+  if (clock === 12 || clock === 11 || clock === 1) return 'ahead';
+  if (clock >= 2 && clock <= 4) return 'right';
+  if (clock >= 8 && clock <= 10) return 'left';
+  return 'behind';
+};
+
+const distanceBucket = (steps: number): string => {
+  if (steps <= 1) return 'here';
+  if (steps <= 3) return 'near';
+  if (steps <= 6) return 'mid';
+  return 'far';
+};
+
+/**
+ * Semantic fingerprint of guidance: small changes in the model's wording,
+ * clock hour or distance estimate do not count as new information.
+ */
+export const guidanceKey = (guidance: NavigationGuidance): string => {
+  if (guidance.hazards.length === 0) {
+    return guidance.pathClear
+      ? 'clear'
+      : `text:${guidance.speech.toLowerCase().replace(/[^\p{L}\p{N} ]/gu, '').trim()}`;
+  }
+
+  return guidance.hazards
+    .map(h => `${h.type}|${directionBucket(h.clock)}|${distanceBucket(h.distanceSteps)}|${h.severity}`)
+    .sort()
+    .join(';');
+};
+
+interface GuidanceDeduplicatorOptions {
+  heartbeatMs?: number | null;       // Say "still clear" this often while nothing changes (null = never)
+  repeatHighSeverityMs?: number;     // Re-warn about an unchanged "stop" hazard this often
+}
+
+/**
+ * Suppresses guidance that says the same thing as the last spoken guidance.
+ * Returns the text to speak, or null to stay silent.
+ */
+export class GuidanceDeduplicator {
+  private lastKey: string | null = null;
+  private lastSpokenAt = 0;
+  private heartbeatMs: number | null;
+  private repeatHighSeverityMs: number;
+
+  constructor(options: GuidanceDeduplicatorOptions = {}) {
+    this.heartbeatMs = options.heartbeatMs === undefined ? 15000 : options.heartbeatMs;
+    this.repeatHighSeverityMs = options.repeatHighSeverityMs ?? 5000;
+  }
+
+  public filter(guidance: NavigationGuidance, now: number = Date.now()): string | null {
+    const key = guidanceKey(guidance);
+    const elapsed = now - this.lastSpokenAt;
+
+    if (key !== this.lastKey) {
+      this.remember(key, now);
+      return guidance.speech;
+    }
+
+    if (guidance.hazards.some(h => h.severity === 'high') && elapsed >= this.repeatHighSeverityMs) {
+      this.remember(key, now);
+      return guidance.speech;
+    }
+
+    if (key === 'clear' && this.heartbeatMs !== null && elapsed >= this.heartbeatMs) {
+      this.remember(key, now);
+      return t('stillClear');
+    }
+
+    return null;
+  }
+
+  /**
+   * Called when nothing was analysed (unchanged frame) so the heartbeat still fires.
+   */
+  public heartbeat(now: number = Date.now()): string | null {
+    if (this.lastKey !== 'clear' || this.heartbeatMs === null) return null;
+    if (now - this.lastSpokenAt < this.heartbeatMs) return null;
+    this.remember('clear', now);
+    return t('stillClear');
+  }
+
+  public reset() {
+    this.lastKey = null;
+    this.lastSpokenAt = 0;
+  }
+
+  private remember(key: string, now: number) {
+    this.lastKey = key;
+    this.lastSpokenAt = now;
+  }
+}
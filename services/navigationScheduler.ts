@@ -0,0 +1,115 @@
+import { HazardSeverity, NavigationGuidance } from "../types";
+
+export interface CadenceSettings {
+  minIntervalMs: number;   // Fastest analysis rate (walking toward a hazard)
+  maxIntervalMs: number;   // Slowest analysis rate (standing still)
+}
+
+export const DEFAULT_CADENCE: CadenceSettings = {
+  minIntervalMs: 500,
+  maxIntervalMs: 6000,
+};
+
+// The bounds are user preferences (see preferences.ts); these limits keep them sane
+export const MIN_INTERVAL_FLOOR_MS = 200;
+export const MAX_INTERVAL_CEILING_MS = 15000;
+
+export const normalizeCadence = (settings: CadenceSettings): CadenceSettings => {
+  const minIntervalMs = Math.min(MAX_INTERVAL_CEILING_MS,
+    Math.max(MIN_INTERVAL_FLOOR_MS, Number(settings.minIntervalMs) || DEFAULT_CADENCE.minIntervalMs));
+  const maxIntervalMs = Math.min(MAX_INTERVAL_CEILING_MS,
+    Math.max(minIntervalMs, Number(settings.maxIntervalMs) || DEFAULT_CADENCE.maxIntervalMs));
+  return { minIntervalMs, maxIntervalMs };
+};
+
+// Share of the min..max range used for each severity when walking
+const SEVERITY_FACTOR: Record<HazardSeverity | 'none', number> = {
+  high: 0,
+  medium: 0.25,
+  low: 0.5,
+  none: 0.6,
+};
+
+// Smoothing for the model latency moving average
+const LATENCY_ALPHA = 0.3;
+
+interface SchedulerInputs {
+  isMoving: () => boolean;
+}
+
+/**
+ * Adaptive cadence for the navigation loop.
+ * The interval shrinks when the user walks toward hazards and grows when
+ * they stand still; measured model latency and errors stretch it further.
+ */
+export class NavigationScheduler {
+  private settings: CadenceSettings;
+  private inputs: SchedulerInputs;
+  private latencyMs = 0;
+  private lastSeverity: HazardSeverity | 'none' = 'none';
+  private consecutiveErrors = 0;
+
+  constructor(settings: CadenceSettings, inputs: SchedulerInputs) {
+    this.settings = normalizeCadence(settings);
+    this.inputs = inputs;
+  }
+
+  /**
+   * New bounds from the settings screen; used from the next interval on.
+   */
+  public setSettings(settings: CadenceSettings) {
+    this.settings = normalizeCadence(settings);
+  }
+
+  public recordLatency(ms: number) {
+    this.latencyMs = this.latencyMs === 0 ? ms : this.latencyMs + LATENCY_ALPHA * (ms - this.latencyMs);
+    this.consecutiveErrors = 0;
+  }
+
+  public recordGuidance(guidance: NavigationGuidance | null) {
+    this.lastSeverity = guidance?.hazards[0]?.severity ?? 'none';
+  }
+
+  public recordError() {
+    this.consecutiveErrors++;
+  }
+
+  /**
+   * Target time between the start of two analyses.
+   */
+  public nextIntervalMs(): number {
+    const { minIntervalMs, maxIntervalMs } = this.settings;
+
+    // Exponential back-off on errors: min, 2x, 4x... capped at max
+    if (this.consecutiveErrors > 0) {
+      return Math.min(maxIntervalMs, minIntervalMs * Math.pow(2, this.consecutiveErrors));
+    }
+
+    let interval: number;
+    if (!this.inputs.isMoving() && this.lastSeverity !== 'high') {
+      interval = maxIntervalMs;
+    } else {
+      interval = minIntervalMs + (maxIntervalMs - minIntervalMs) * SEVERITY_FACTOR[this.lastSeverity];
+    }
+
+    // No point asking faster than the model can answer
+    return Math.min(maxIntervalMs, Math.max(interval, this.latencyMs));
+  }
+
+  /**
+   * How long to wait now, given how long the last analysis took.
+   */
+  public nextDelayMs(elapsedMs: number): number {
+    return Math.max(100, this.nextIntervalMs() - elapsedMs);
+  }
+}
+
+/**
+ * Sleeps in short slices so a stop request is honoured quickly.
+ */
+export const waitWhile = async (ms: number, keepWaiting: () => boolean) => {
+  const end = Date.now() + ms;
+  while (keepWaiting() && Date.now() < end) {
+    await new Promise(r => setTimeout(r, Math.min(100, end - Date.now())));
+  }
+};
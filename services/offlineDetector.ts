@@ -0,0 +1,162 @@
+import { Hazard, HazardSeverity, NavigationGuidance } from "../types";
+import { StringKey, t } from "./i18n";
+import { renderGuidanceSpeech, sortHazardsBySeverity } from "./navigationGuidance";
+import { getPreferences } from "./preferences";
+
+// Weights checked in under public/models and served with the app
+const LOCAL_MODEL_URL = process.env.OFFLINE_MODEL_URL || '/models/coco-ssd/model.json';
+const MIN_SCORE = 0.5;
+const MAX_DETECTIONS = 10;
+// Approximate phone camera vertical field of view, used to turn box height into distance
+const VERTICAL_FOV_DEG = 45;
+
+interface ClassInfo {
+  label: StringKey;
+  heightMeters: number;   // Typical real height, for the distance estimate
+  vehicle?: boolean;      // Dangerous even when not directly ahead
+}
+
+// COCO classes worth a warning on foot; anything else is reported as a generic obstacle
+const HAZARD_CLASSES: Record<string, ClassInfo> = {
+  person: { label: 'objPerson', heightMeters: 1.7 },
+  bicycle: { label: 'objBicycle', heightMeters: 1.0, vehicle: true },
+  motorcycle: { label: 'objMotorcycle', heightMeters: 1.1, vehicle: true },
+  car: { label: 'objCar', heightMeters: 1.5, vehicle: true },
+  bus: { label: 'objBus', heightMeters: 3.0, vehicle: true },
+  truck: { label: 'objTruck', heightMeters: 3.0, vehicle: true },
+  dog: { label: 'objDog', heightMeters: 0.5 },
+  chair: { label: 'objChair', heightMeters: 0.9 },
+  bench: { label: 'objBench', heightMeters: 0.8 },
+  'dining table': { label: 'objTable', heightMeters: 0.75 },
+  'potted plant': { label: 'objPlant', heightMeters: 0.8 },
+  'fire hydrant': { label: 'objHydrant', heightMeters: 0.7 },
+  suitcase: { label: 'objSuitcase', heightMeters: 0.6 },
+};
+const GENERIC_OBSTACLE: ClassInfo = { label: 'objObstacle', heightMeters: 1.0 };
+
+// Small household items the detector knows but which are rarely in a walking path
+const IGNORED_CLASSES = new Set([
+  'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange', 'broccoli',
+  'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'mouse', 'remote', 'keyboard', 'cell phone',
+  'book', 'scissors', 'toothbrush', 'hair drier', 'teddy bear', 'wine glass', 'bottle', 'tie',
+]);
+
+interface Detection {
+  bbox: [number, number, number, number];   // x, y, width, height in pixels
+  class: string;
+  score: number;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+// Horizontal position in the frame (0 = left edge) to a coarse clock direction
+const clockFromCenter = (x: number): number => {
+  if (x < 0.2) return 10;
+  if (x < 0.4) return 11;
+  if (x < 0.6) return 12;
+  if (x < 0.8) return 1;
+  return 2;
+};
+
+/**
+ * Turns raw detections into hazards. Distance comes from the box height and the
+ * object's typical size, so it is only a rough guess.
+ */
+export const detectionsToGuidance = (detections: Detection[], frameWidth: number, frameHeight: number): NavigationGuidance => {
+  const { strideLengthMeters } = getPreferences();
+  const viewHeight = 2 * Math.tan((VERTICAL_FOV_DEG / 2) * Math.PI / 180);
+
+  const hazards: Hazard[] = detections
+    .filter(d => d.score >= MIN_SCORE && !IGNORED_CLASSES.has(d.class))
+    .map(d => {
+      const info = HAZARD_CLASSES[d.class] || GENERIC_OBSTACLE;
+      const [x, , width, height] = d.bbox;
+      const center = (x + width / 2) / frameWidth;
+      const heightFraction = Math.max(0.05, height / frameHeight);
+      const distanceMeters = Math.round(Math.min(15, Math.max(0.5, info.heightMeters / (heightFraction * viewHeight))) * 10) / 10;
+      const inPath = Math.abs(center - 0.5) < 0.2;
+
+      let severity: HazardSeverity = 'low';
+      if ((inPath && distanceMeters < 1.5) || (info.vehicle && distanceMeters < 5)) severity = 'high';
+      else if (inPath || distanceMeters < 3) severity = 'medium';
+
+      return {
+        type: t(info.label),
+        clock: clockFromCenter(center),
+        distanceMeters,
+        distanceSteps: Math.max(1, Math.round(distanceMeters / strideLengthMeters)),
+        severity,
+      };
+    });
+
+  const sorted = sortHazardsBySeverity(hazards).slice(0, 3);
+  const guidance = {
+    hazards: sorted,
+    pathClear: sorted.every(h => h.severity === 'low'),
+  };
+  return { ...guidance, speech: renderGuidanceSpeech(guidance), source: 'device' };
+};
+
+/**
+ * CPU-only COCO-SSD detector that runs in the browser. TensorFlow.js is loaded on
+ * first use, so it costs nothing until navigation starts.
+ */
+export class OfflineObstacleDetector {
+  private model: any = null;
+  private loading: Promise<boolean> | null = null;
+  private failed = false;
+
+  get isReady(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Loads the model from the weights served with the app. There is deliberately
+   * no hosted copy: a detector that needs the network is no use offline.
+   * Safe to call repeatedly; resolves false (once loudly) if it can't be loaded.
+   */
+  load(): Promise<boolean> {
+    if (this.model) return Promise.resolve(true);
+    if (this.failed) return Promise.resolve(false);
+    if (this.loading) return this.loading;
+
+    this.loading = (async () => {
+      try {
+        const [tf, cocoSsd] = await Promise.all([
+          import('@tensorflow/tfjs-core'),
+          import('@tensorflow-models/coco-ssd'),
+          import('@tensorflow/tfjs-backend-cpu'),
+        ]);
+        await tf.setBackend('cpu');
+        await tf.ready();
+
+        this.model = await cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: LOCAL_MODEL_URL });
+        console.log("📦 Offline obstacle detector ready");
+        return true;
+      } catch (e) {
+        // Missing weights won't appear later, so don't retry on every frame
+        this.failed = true;
+        console.error(`📦 Offline obstacle detector unavailable: could not load ${LOCAL_MODEL_URL}. ` +
+          "Run `npm run fetch:offline-model` and commit public/models, or set OFFLINE_MODEL_URL.", e);
+        return false;
+      } finally {
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  async detect(imageDataUrl: string): Promise<NavigationGuidance | null> {
+    if (!(await this.load())) return null;
+
+    const img = await loadImage(imageDataUrl);
+    const detections: Detection[] = await this.model.detect(img, MAX_DETECTIONS, MIN_SCORE);
+    return detectionsToGuidance(detections, img.naturalWidth || img.width, img.naturalHeight || img.height);
+  }
+}
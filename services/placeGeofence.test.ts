@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { SavedPlace } from '../types';
+import { findPlace } from './placeGeofence';
+
+const place = (id: string, label: string): SavedPlace => ({
+  id,
+  label,
+  location: { latitude: 10, longitude: 106 },
+  createdAt: new Date(0),
+});
+
+const PLACES = [place('1', "Grandma's home"), place('2', 'The bus stop')];
+
+describe('findPlace', () => {
+  it('matches a label said without case, punctuation or "the"', () => {
+    expect(findPlace(PLACES, 'bus stop')?.id).toBe('2');
+    expect(findPlace(PLACES, 'the Bus Stop.', { exact: true })?.id).toBe('2');
+  });
+
+  it('falls back to a partial match only when allowed', () => {
+    expect(findPlace(PLACES, 'home')?.id).toBe('1');
+    expect(findPlace(PLACES, 'home', { exact: true })).toBeNull();
+  });
+});
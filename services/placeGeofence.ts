@@ -0,0 +1,61 @@
+import { GeoLocation, SavedPlace } from "../types";
+import { distanceBetween } from "./routeGuidance";
+import { normalizeSpeech } from "./wakeWord";
+
+// Leaving means going this far beyond the radius, so GPS jitter at the edge doesn't repeat an announcement
+const EXIT_FACTOR = 1.5;
+
+export interface NearbyPlace {
+  place: SavedPlace;
+  distanceMeters: number;
+}
+
+/**
+ * Spoken labels are compared without case, punctuation or a leading "the"/"my".
+ */
+export const cleanPlaceLabel = (label: string): string =>
+  normalizeSpeech(label).replace(/^(?:the|my) /, '');
+
+/**
+ * The saved place a spoken label refers to: an exact match, else one containing it.
+ * With `exact`, only an exact match counts, e.g. before deleting without asking.
+ */
+export const findPlace = (places: SavedPlace[], label: string, { exact = false } = {}): SavedPlace | null => {
+  const wanted = cleanPlaceLabel(label);
+  if (!wanted) return null;
+  return places.find(p => cleanPlaceLabel(p.label) === wanted)
+    || (exact ? undefined : places.find(p => cleanPlaceLabel(p.label).includes(wanted)))
+    || null;
+};
+
+/**
+ * Tells when the user comes within a radius of a saved place. Each place is
+ * announced once on the way in and can only be announced again after leaving.
+ */
+export class PlaceGeofence {
+  private inside = new Set<string>();
+
+  /**
+   * Feeds a GPS fix. Returns the places just entered, nearest first.
+   */
+  update(location: GeoLocation, places: SavedPlace[], radiusMeters: number): NearbyPlace[] {
+    const entered: NearbyPlace[] = [];
+    for (const place of places) {
+      const distanceMeters = distanceBetween(location, place.location);
+      if (this.inside.has(place.id)) {
+        if (distanceMeters > radiusMeters * EXIT_FACTOR) this.inside.delete(place.id);
+      } else if (distanceMeters <= radiusMeters) {
+        this.inside.add(place.id);
+        entered.push({ place, distanceMeters });
+      }
+    }
+    return entered.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+
+  /**
+   * Counts the user as already at a place, e.g. one just saved where they stand.
+   */
+  markInside(id: string) {
+    this.inside.add(id);
+  }
+}
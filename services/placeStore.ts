@@ -0,0 +1,26 @@
+import { SavedPlace } from "../types";
+import { openDB, promisify, STORES } from "./localDb";
+
+const STORE = STORES.places;
+
+/**
+ * Saves (or updates) a place.
+ */
+export const savePlace = async (place: SavedPlace): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(place));
+};
+
+/**
+ * All saved places, oldest first.
+ */
+export const getPlaces = async (): Promise<SavedPlace[]> => {
+  const db = await openDB();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return await promisify(store.index('createdAt').getAll()) as SavedPlace[];
+};
+
+export const deletePlace = async (id: string): Promise<void> => {
+  const db = await openDB();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { parseSettingsCommand } from './preferences';
+
+describe('parseSettingsCommand', () => {
+  it('opens settings when asked for them', () => {
+    for (const command of ['Settings', 'open settings.', 'go to the settings', 'cài đặt', 'mở cài đặt']) {
+      expect(parseSettingsCommand(command)).toBe('open');
+    }
+  });
+
+  it('leaves questions that mention settings alone', () => {
+    for (const command of ['what are the camera settings on this sign', 'is the oven on the right settings', 'cài đặt này là gì']) {
+      expect(parseSettingsCommand(command)).toBeNull();
+    }
+  });
+});
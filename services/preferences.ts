@@ -0,0 +1,272 @@
+import { StringKey, t } from "./i18n";
+import { normalizeSpeech, WAKE_PHRASES } from "./wakeWord";
+import { isSosNotifierConfigured } from "./sosNotifier";
+import { CadenceSettings, DEFAULT_CADENCE, MIN_INTERVAL_FLOOR_MS, normalizeCadence } from "./navigationScheduler";
+
+export type Verbosity = 'brief' | 'normal' | 'detailed';
+export type DistanceUnit = 'steps' | 'meters' | 'feet';
+export type DirectionStyle = 'clock' | 'leftRight';
+// Channel for navigation guidance and status cues; assistant answers are always spoken
+export type FeedbackChannel = 'speech' | 'haptics' | 'both';
+// Spatial hazard tones: off, played before the spoken guidance, or replacing it
+export type EarconMode = 'off' | 'alongside' | 'instead';
+
+export interface UserPreferences {
+  speechRate: number;          // 0.5 - 2.0
+  speechPitch: number;         // 0.5 - 2.0
+  speechVolume: number;        // 0.1 - 1.0
+  voiceName: string | null;    // null = pick automatically for the current language
+  verbosity: Verbosity;
+  distanceUnit: DistanceUnit;
+  directionStyle: DirectionStyle;
+  strideLengthMeters: number;  // Used to convert meters to steps
+  feedbackChannel: FeedbackChannel;
+  earcons: EarconMode;
+  wakePhrase: string | null;   // null = no always-listening, tap ASK AI instead
+  placeRadiusMeters: number;   // Saved places are announced within this distance
+  fallDetection: boolean;      // Start an SOS countdown after a detected fall
+  minScanIntervalMs: number;   // Navigation looks this often at most (walking toward a hazard)
+  maxScanIntervalMs: number;   // and at least this often (standing still)
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  speechRate: 1.1,
+  speechPitch: 1.0,
+  speechVolume: 1.0,
+  voiceName: null,
+  verbosity: 'normal',
+  distanceUnit: 'steps',
+  directionStyle: 'clock',
+  strideLengthMeters: 0.7,
+  feedbackChannel: 'speech',
+  earcons: 'off',
+  wakePhrase: null,
+  placeRadiusMeters: 25,
+  fallDetection: true,
+  minScanIntervalMs: DEFAULT_CADENCE.minIntervalMs,
+  maxScanIntervalMs: DEFAULT_CADENCE.maxIntervalMs,
+};
+
+const STORAGE_KEY = 'blindeye.preferences';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const normalizePreferences = (prefs: UserPreferences): UserPreferences => {
+  const cadence = normalizeCadence({ minIntervalMs: prefs.minScanIntervalMs, maxIntervalMs: prefs.maxScanIntervalMs });
+  return {
+    ...prefs,
+    speechRate: clamp(Number(prefs.speechRate) || DEFAULT_PREFERENCES.speechRate, 0.5, 2),
+    speechPitch: clamp(Number(prefs.speechPitch) || DEFAULT_PREFERENCES.speechPitch, 0.5, 2),
+    speechVolume: clamp(Number(prefs.speechVolume) || DEFAULT_PREFERENCES.speechVolume, 0.1, 1),
+    strideLengthMeters: clamp(Number(prefs.strideLengthMeters) || DEFAULT_PREFERENCES.strideLengthMeters, 0.3, 1.2),
+    placeRadiusMeters: clamp(Number(prefs.placeRadiusMeters) || DEFAULT_PREFERENCES.placeRadiusMeters, 10, 100),
+    fallDetection: prefs.fallDetection !== false,
+    wakePhrase: typeof prefs.wakePhrase === 'string' && prefs.wakePhrase.trim() ? prefs.wakePhrase.trim() : null,
+    minScanIntervalMs: cadence.minIntervalMs,
+    maxScanIntervalMs: cadence.maxIntervalMs,
+  };
+};
+
+const loadPreferences = (): UserPreferences => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return normalizePreferences({ ...DEFAULT_PREFERENCES, ...JSON.parse(raw) });
+  } catch (e) {
+    console.warn("Could not read preferences:", e);
+  }
+  return { ...DEFAULT_PREFERENCES };
+};
+
+let currentPreferences: UserPreferences = loadPreferences();
+const listeners = new Set<(prefs: UserPreferences) => void>();
+
+export const getPreferences = (): UserPreferences => currentPreferences;
+
+export const updatePreferences = (changes: Partial<UserPreferences>) => {
+  currentPreferences = normalizePreferences({ ...currentPreferences, ...changes });
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(currentPreferences)); } catch (e) { }
+  listeners.forEach(listener => listener(currentPreferences));
+};
+
+/**
+ * Whether navigation guidance should be spoken, given the feedback and earcon settings.
+ */
+export const guidanceSpeechEnabled = (prefs: UserPreferences = currentPreferences): boolean =>
+  prefs.feedbackChannel !== 'haptics' && prefs.earcons !== 'instead';
+
+/**
+ * The navigation scan interval bounds, in the scheduler's terms.
+ */
+export const cadenceSettings = (prefs: UserPreferences = currentPreferences): CadenceSettings => ({
+  minIntervalMs: prefs.minScanIntervalMs,
+  maxIntervalMs: prefs.maxScanIntervalMs,
+});
+
+export const resetPreferences = () => updatePreferences({ ...DEFAULT_PREFERENCES });
+
+export const subscribePreferences = (listener: (prefs: UserPreferences) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Prompt lines describing how the user wants directions, distances and length.
+ */
+export const stylePromptRules = (prefs: UserPreferences = currentPreferences): string => {
+  const direction = prefs.directionStyle === 'clock'
+    ? `- Use clock-face directions: 12 o'clock (ahead), 3 o'clock (right), 9 o'clock (left).`
+    : `- Use simple directions: "ahead", "slightly left/right", "to your left/right". Never use clock-face directions.`;
+
+  const distance = {
+    steps: `- Give distances in steps (one step is about ${prefs.strideLengthMeters} meters).`,
+    meters: `- Give distances in meters.`,
+    feet: `- Give distances in feet.`,
+  }[prefs.distanceUnit];
+
+  const length = {
+    brief: `- Maximum 1 short sentence.`,
+    normal: `- Maximum 2-3 sentences.`,
+    detailed: `- Up to 5 sentences; include useful details.`,
+  }[prefs.verbosity];
+
+  return [direction, distance, length].join('\n');
+};
+
+// --- Settings screen model (shared by the panel and voice navigation) ---
+
+export interface SettingItem {
+  label: StringKey;
+  describe: (prefs: UserPreferences, voices: SpeechSynthesisVoice[]) => string;
+  step: (prefs: UserPreferences, direction: 1 | -1, voices: SpeechSynthesisVoice[]) => Partial<UserPreferences>;
+}
+
+const cycle = <T>(values: T[], current: T, direction: 1 | -1): T =>
+  values[(values.indexOf(current) + direction + values.length) % values.length];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const seconds = (ms: number) => round1(ms / 1000);
+
+const VERBOSITY_LABEL: Record<Verbosity, StringKey> = {
+  brief: 'verbosityBrief', normal: 'verbosityNormal', detailed: 'verbosityDetailed',
+};
+const UNIT_LABEL: Record<DistanceUnit, StringKey> = {
+  steps: 'unitSteps', meters: 'unitMeters', feet: 'unitFeet',
+};
+const DIRECTION_LABEL: Record<DirectionStyle, StringKey> = {
+  clock: 'styleClock', leftRight: 'styleLeftRight',
+};
+const CHANNEL_LABEL: Record<FeedbackChannel, StringKey> = {
+  speech: 'channelSpeech', haptics: 'channelHaptics', both: 'channelBoth',
+};
+const EARCON_LABEL: Record<EarconMode, StringKey> = {
+  off: 'earconsOff', alongside: 'earconsAlongside', instead: 'earconsInstead',
+};
+
+export const SETTING_ITEMS: SettingItem[] = [
+  {
+    label: 'settingSpeechRate',
+    describe: p => `${p.speechRate}`,
+    step: (p, d) => ({ speechRate: round1(p.speechRate + d * 0.1) }),
+  },
+  {
+    label: 'settingPitch',
+    describe: p => `${p.speechPitch}`,
+    step: (p, d) => ({ speechPitch: round1(p.speechPitch + d * 0.1) }),
+  },
+  {
+    label: 'settingVolume',
+    describe: p => `${Math.round(p.speechVolume * 100)}%`,
+    step: (p, d) => ({ speechVolume: round1(p.speechVolume + d * 0.1) }),
+  },
+  {
+    label: 'settingVoice',
+    describe: p => p.voiceName || t('voiceAutomatic'),
+    step: (p, d, voices) => {
+      // "Automatic" is the first option, then every voice for the current language
+      const names: (string | null)[] = [null, ...voices.map(v => v.name)];
+      return { voiceName: cycle(names, names.includes(p.voiceName) ? p.voiceName : null, d) };
+    },
+  },
+  {
+    label: 'settingVerbosity',
+    describe: p => t(VERBOSITY_LABEL[p.verbosity]),
+    step: (p, d) => ({ verbosity: cycle<Verbosity>(['brief', 'normal', 'detailed'], p.verbosity, d) }),
+  },
+  {
+    label: 'settingDistanceUnit',
+    describe: p => t(UNIT_LABEL[p.distanceUnit]),
+    step: (p, d) => ({ distanceUnit: cycle<DistanceUnit>(['steps', 'meters', 'feet'], p.distanceUnit, d) }),
+  },
+  {
+    label: 'settingDirectionStyle',
+    describe: p => t(DIRECTION_LABEL[p.directionStyle]),
+    step: (p, d) => ({ directionStyle: cycle<DirectionStyle>(['clock', 'leftRight'], p.directionStyle, d) }),
+  },
+  {
+    label: 'settingFeedbackChannel',
+    describe: p => t(CHANNEL_LABEL[p.feedbackChannel]),
+    step: (p, d) => ({ feedbackChannel: cycle<FeedbackChannel>(['speech', 'haptics', 'both'], p.feedbackChannel, d) }),
+  },
+  {
+    label: 'settingEarcons',
+    describe: p => t(EARCON_LABEL[p.earcons]),
+    step: (p, d) => ({ earcons: cycle<EarconMode>(['off', 'alongside', 'instead'], p.earcons, d) }),
+  },
+  {
+    label: 'settingWakeWord',
+    describe: p => p.wakePhrase ? `"${p.wakePhrase}"` : t('wakeWordOff'),
+    step: (p, d) => ({ wakePhrase: cycle<string | null>([null, ...WAKE_PHRASES], p.wakePhrase, d) }),
+  },
+  {
+    label: 'settingStride',
+    describe: p => t('strideValue', { meters: p.strideLengthMeters }),
+    step: (p, d) => ({ strideLengthMeters: Math.round((p.strideLengthMeters + d * 0.05) * 100) / 100 }),
+  },
+  {
+    label: 'settingPlaceRadius',
+    describe: p => t('radiusValue', { meters: p.placeRadiusMeters }),
+    step: (p, d) => ({ placeRadiusMeters: p.placeRadiusMeters + d * 5 }),
+  },
+  {
+    label: 'settingFastestScan',
+    describe: p => t('scanIntervalValue', { seconds: seconds(p.minScanIntervalMs) }),
+    step: (p, d) => ({ minScanIntervalMs: p.minScanIntervalMs + d * 100 }),
+  },
+  {
+    label: 'settingSlowestScan',
+    describe: p => t('scanIntervalValue', { seconds: seconds(p.maxScanIntervalMs) }),
+    // Lowering it below the fastest scan pulls that down too
+    step: (p, d) => {
+      const maxScanIntervalMs = Math.max(MIN_INTERVAL_FLOOR_MS, p.maxScanIntervalMs + d * 1000);
+      return { maxScanIntervalMs, minScanIntervalMs: Math.min(p.minScanIntervalMs, maxScanIntervalMs) };
+    },
+  },
+  {
+    label: 'settingFallDetection',
+    // Said here because a fall alert that reaches no one must not come as a surprise
+    describe: p => {
+      const value = t(p.fallDetection ? 'fallDetectionOn' : 'fallDetectionOff');
+      return isSosNotifierConfigured() ? value : t('sosNotConfiguredSetting', { value });
+    },
+    step: p => ({ fallDetection: !p.fallDetection }),
+  },
+];
+
+export type SettingsCommand = 'open' | 'close' | 'next' | 'previous' | 'increase' | 'decrease' | 'reset';
+
+/**
+ * Voice commands for the settings screen. 'open' is recognised anywhere, so it
+ * must be the whole utterance ("settings", "open settings"), not a question that
+ * mentions settings; the others only make sense while the screen is showing.
+ */
+export const parseSettingsCommand = (command: string): SettingsCommand | null => {
+  const c = normalizeSpeech(command);
+  if (/\breset (the )?settings\b/.test(c) || c.includes('đặt lại')) return 'reset';
+  if (/^(close|done|exit)\b/.test(c) || /^(đóng|xong|thoát)/.test(c)) return 'close';
+  if (/^(?:(?:open|show|go to) )?(?:the )?settings$/.test(c) || /^(?:mở )?cài đặt$/.test(c)) return 'open';
+  if (/^(next|down)\b/.test(c) || /^(tiếp|kế tiếp)/.test(c)) return 'next';
+  if (/^(previous|back|up)\b/.test(c) || /^(trước|lùi|quay lại)/.test(c)) return 'previous';
+  if (/\b(increase|more|higher|faster|louder)\b/.test(c) || c.startsWith('tăng')) return 'increase';
+  if (/\b(decrease|less|lower|slower|quieter)\b/.test(c) || c.startsWith('giảm')) return 'decrease';
+  return null;
+};
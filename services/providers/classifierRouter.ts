@@ -0,0 +1,39 @@
+import { findRoutingKeyword, RoutingPolicy, TierChoice } from "../modelRouter";
+
+interface Feature {
+  name: string;
+  weight: number;
+  test: (query: string, words: number) => boolean;
+}
+
+// Questions longer than this are usually asking for more than a glance
+const LONG_QUESTION_WORDS = 12;
+// A score at or above this goes to pro
+const PRO_THRESHOLD = 2;
+
+const FEATURES: Feature[] = [
+  { name: 'reading', weight: 2, test: q => !!findRoutingKeyword(q, 'reading') },
+  { name: 'reasoning', weight: 2, test: q => !!findRoutingKeyword(q, 'reasoning') },
+  { name: 'quick look', weight: -1.5, test: q => !!findRoutingKeyword(q, 'quick') },
+  { name: 'long question', weight: 1, test: (_, words) => words > LONG_QUESTION_WORDS },
+  { name: 'numbers', weight: 0.5, test: q => /\d/.test(q) },
+];
+
+/**
+ * On-device classifier: a weighted sum of simple features of the question.
+ * Unlike plain keywords it weighs them against each other, e.g. "is there a
+ * sign in front of me" stays fast while a long question about a menu goes pro.
+ */
+export class ClassifierRoutingPolicy implements RoutingPolicy {
+  public readonly name = 'classifier';
+
+  public async choose(query: string): Promise<TierChoice> {
+    const q = query.toLowerCase();
+    const words = q.split(/\s+/).filter(Boolean).length;
+    const matched = FEATURES.filter(f => f.test(q, words));
+    const score = matched.reduce((sum, f) => sum + f.weight, 0);
+
+    const features = matched.length ? matched.map(f => f.name).join(', ') : 'no features';
+    return { tier: score >= PRO_THRESHOLD ? 'pro' : 'fast', reason: `${features} (score ${score})` };
+  }
+}
@@ -0,0 +1,76 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, UsageMetadata } from "@google/genai";
+import { ModelTier, TokenUsage, VisionProvider, VisionRequest, VisionResponse } from "../visionProvider";
+import { TIER_MODELS } from "../modelRegistry";
+
+/**
+ * Billed tokens from Gemini usage metadata: tool results (e.g. Maps grounding) are
+ * input, and thinking is output. Also used for Live sessions, which name the
+ * output count differently.
+ */
+export const geminiUsage = (usage?: GenerateContentResponseUsageMetadata | UsageMetadata): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const output = (usage as GenerateContentResponseUsageMetadata).candidatesTokenCount ?? (usage as UsageMetadata).responseTokenCount;
+  return {
+    inputTokens: (usage.promptTokenCount || 0) + (usage.toolUsePromptTokenCount || 0),
+    outputTokens: (output || 0) + (usage.thoughtsTokenCount || 0),
+  };
+};
+
+/**
+ * Google Gemini backend (default).
+ */
+export class GeminiVisionProvider implements VisionProvider {
+  public readonly name = 'gemini';
+  public readonly supportsMaps = true;
+  public readonly models: Record<ModelTier, string> = TIER_MODELS.gemini;
+
+  private apiKey: string;
+  private ai: GoogleGenAI | null = null;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  // Lazy initialization
+  private getAI() {
+    if (!this.ai) {
+      if (!this.apiKey) console.warn("API_KEY is missing");
+      this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.ai;
+  }
+
+  public async generate(request: VisionRequest): Promise<VisionResponse> {
+    const model = this.models[request.tier];
+
+    const parts: any[] = [];
+    if (request.imageBase64) {
+      parts.push({ inlineData: { mimeType: 'image/jpeg', data: request.imageBase64 } });
+    }
+    parts.push({ text: request.prompt });
+
+    const tools = request.useMaps ? [{ googleMaps: {} }] : undefined;
+    const toolConfig = tools && request.location ? {
+      retrievalConfig: { latLng: { latitude: request.location.latitude, longitude: request.location.longitude } }
+    } : undefined;
+
+    const response = await this.getAI().models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        tools,
+        toolConfig,
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        responseMimeType: request.json ? 'application/json' : undefined,
+        abortSignal: request.signal,
+      }
+    });
+
+    return {
+      text: response.text || "",
+      model,
+      usage: geminiUsage(response.usageMetadata),
+    };
+  }
+}
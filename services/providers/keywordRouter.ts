@@ -0,0 +1,16 @@
+import { findRoutingKeyword, RoutingPolicy, TierChoice } from "../modelRouter";
+
+/**
+ * Pro for any question that mentions reading or reasoning, fast otherwise.
+ * Instant and free; also the fallback when the LLM router can't answer.
+ */
+export class KeywordRoutingPolicy implements RoutingPolicy {
+  public readonly name = 'keywords';
+
+  public async choose(query: string): Promise<TierChoice> {
+    const hit = findRoutingKeyword(query.toLowerCase(), 'reading', 'reasoning');
+    return hit
+      ? { tier: 'pro', reason: `keyword "${hit}"` }
+      : { tier: 'fast', reason: 'no complex keywords' };
+  }
+}
@@ -0,0 +1,42 @@
+import { RoutingPolicy, TierChoice } from "../modelRouter";
+import { callModel } from "../modelCall";
+
+/**
+ * Asks the fast model whether the question is complex. One extra short call,
+ * but it understands questions no keyword list covers. Unclear answers and
+ * errors go to the fallback policy.
+ */
+export class LlmRoutingPolicy implements RoutingPolicy {
+  public readonly name = 'llm';
+
+  constructor(private fallback: RoutingPolicy) { }
+
+  public async choose(query: string): Promise<TierChoice> {
+    try {
+      const response = await callModel('router', {
+        tier: 'fast',
+        prompt: `Task: Intelligent AI Model Router.
+Query: "${query}"
+The query may be in any language.
+Output: "GEMINI3" (Complex/Reading/Reasoning) or "FLASH" (Simple/Vision/Speed).
+Only output the word.`,
+        temperature: 0.1,
+        maxOutputTokens: 10
+      });
+
+      const decision = response.text?.trim().toUpperCase();
+      if (decision?.includes("GEMINI3") || decision?.includes("PRO")) {
+        return { tier: 'pro', reason: 'router: complex' };
+      }
+      if (decision?.includes("FLASH")) {
+        return { tier: 'fast', reason: 'router: simple' };
+      }
+      const choice = await this.fallback.choose(query);
+      return { ...choice, reason: `${choice.reason} (router unclear)` };
+    } catch (e) {
+      console.error("Model selection error:", e);
+      const choice = await this.fallback.choose(query);
+      return { ...choice, reason: `${choice.reason} (router failed)` };
+    }
+  }
+}
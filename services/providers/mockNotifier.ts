@@ -0,0 +1,17 @@
+import { SosMessage, SosNotifier } from "../sosNotifier";
+
+/**
+ * Logs SOS messages instead of sending them, for development and demos.
+ */
+export class MockSosNotifier implements SosNotifier {
+  public readonly name = 'mock';
+  public readonly sent: SosMessage[] = [];
+
+  public async send(message: SosMessage): Promise<void> {
+    this.sent.push(message);
+    console.log("🆘 [mock] SOS", message.event, {
+      ...message,
+      snapshot: message.snapshot ? `${message.snapshot.length} chars` : undefined,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { MockVisionProvider } from './mockProvider';
+
+describe('MockVisionProvider', () => {
+  it('rejects straight away when the request was already cancelled', async () => {
+    const provider = new MockVisionProvider(60000);
+    const controller = new AbortController();
+    controller.abort(new Error('too late'));
+
+    await expect(provider.generate({ tier: 'fast', prompt: 'what is ahead', signal: controller.signal })).rejects.toThrow('too late');
+  });
+
+  it('rejects when cancelled while waiting', async () => {
+    const provider = new MockVisionProvider(60000);
+    const controller = new AbortController();
+
+    const answer = provider.generate({ tier: 'fast', prompt: 'what is ahead', signal: controller.signal });
+    controller.abort(new Error('too late'));
+    await expect(answer).rejects.toThrow('too late');
+  });
+});
@@ -0,0 +1,92 @@
+import { ModelTier, VisionProvider, VisionRequest, VisionResponse } from "../visionProvider";
+import { TIER_MODELS } from "../modelRegistry";
+
+const NAVIGATION_SCRIPT = [
+  { pathClear: true, hazards: [] },
+  { pathClear: false, hazards: [{ type: "chair", clock: 2, distanceMeters: 2, severity: "medium" }], suggestion: "Bear left." },
+  { pathClear: true, hazards: [{ type: "doorway", clock: 1, distanceMeters: 4, severity: "low" }] },
+  { pathClear: false, hazards: [{ type: "stairs going down", clock: 12, distanceMeters: 0.5, severity: "high" }] },
+];
+
+const DOCUMENT_PAGE = {
+  title: "Corner Cafe",
+  blocks: [
+    { kind: "heading", text: "Corner Cafe" },
+    { kind: "paragraph", text: "Thank you for visiting. Receipt number 1042." },
+    { kind: "price", text: "Coffee 45,000", amount: 45000 },
+    { kind: "price", text: "Croissant 30,000", amount: 30000 },
+    { kind: "price", text: "Total 75,000", amount: 75000, isTotal: true },
+  ],
+};
+
+const BANKNOTE = { currency: "VND", denomination: 50000, side: "front", confidence: 0.92 };
+
+// Rough token counts so the usage dashboard has something to show: ~4 characters a token, a flat cost per image
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+
+/**
+ * In-process stand-in that never touches the network.
+ * Answers are rule-based on the prompt so the navigation loop and the
+ * assistant flow can be exercised offline and in CI.
+ */
+export class MockVisionProvider implements VisionProvider {
+  public readonly name = 'mock';
+  public readonly supportsMaps = false;
+  public readonly models: Record<ModelTier, string> = TIER_MODELS.mock;
+
+  private navigationStep = 0;
+  private latencyMs: number;
+
+  constructor(latencyMs: number = 300) {
+    this.latencyMs = latencyMs;
+  }
+
+  public async generate(request: VisionRequest): Promise<VisionResponse> {
+    // A signal that already fired never sends 'abort' again
+    if (request.signal?.aborted) throw request.signal.reason;
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, this.latencyMs);
+      request.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(request.signal!.reason);
+      }, { once: true });
+    });
+    const text = this.answer(request.prompt);
+    return {
+      text,
+      model: this.models[request.tier],
+      usage: {
+        inputTokens: Math.ceil(request.prompt.length / CHARS_PER_TOKEN) + (request.imageBase64 ? IMAGE_TOKENS : 0),
+        outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+      },
+    };
+  }
+
+  private answer(prompt: string): string {
+    // Router prompt: answer with the routing keyword, judging the query line only
+    if (prompt.includes('Intelligent AI Model Router')) {
+      const query = prompt.match(/^Query: (.*)$/m)?.[1] || '';
+      return /read|document|text|menu|receipt/i.test(query) ? 'GEMINI3' : 'FLASH';
+    }
+
+    // Navigation prompt: walk through a fixed script
+    if (prompt.includes('guide your friend')) {
+      const frame = NAVIGATION_SCRIPT[this.navigationStep % NAVIGATION_SCRIPT.length];
+      this.navigationStep++;
+      return JSON.stringify(frame);
+    }
+
+    // Document prompt: a short receipt
+    if (prompt.includes('document reader')) {
+      return JSON.stringify(DOCUMENT_PAGE);
+    }
+
+    // Banknote prompt: always the same note
+    if (prompt.includes('banknote reader')) {
+      return JSON.stringify(BANKNOTE);
+    }
+
+    return "This is a mock answer. The vision service is running in offline mode.";
+  }
+}
@@ -0,0 +1,46 @@
+import { GeoLocation } from "../../types";
+import { Place, Route, RoutingBackend } from "../routingBackend";
+
+// Used as the start when no GPS fix is given (Hoan Kiem Lake, Hanoi)
+const DEFAULT_ORIGIN: GeoLocation = { latitude: 21.0287, longitude: 105.8524 };
+const METERS_PER_DEGREE = 111320;
+
+const offset = (from: GeoLocation, northMeters: number, eastMeters: number): GeoLocation => ({
+  latitude: from.latitude + northMeters / METERS_PER_DEGREE,
+  longitude: from.longitude + eastMeters / (METERS_PER_DEGREE * Math.cos(from.latitude * Math.PI / 180)),
+});
+
+/**
+ * In-process stand-in that never touches the network. Every destination is
+ * 150 m north and 120 m east of the user, reached with one turn, so turn
+ * announcements can be walked through (or simulated) anywhere.
+ */
+export class MockRoutingBackend implements RoutingBackend {
+  public readonly name = 'mock';
+
+  public async geocode(query: string, near?: GeoLocation): Promise<Place | null> {
+    if (!query.trim()) return null;
+    return { name: query.trim(), location: offset(near || DEFAULT_ORIGIN, 150, 120) };
+  }
+
+  public async route(from: GeoLocation, to: Place): Promise<Route> {
+    // One leg north or south, then one east or west to the destination
+    const corner: GeoLocation = { latitude: to.location.latitude, longitude: from.longitude };
+    const north = (to.location.latitude - from.latitude) * METERS_PER_DEGREE;
+    const east = (to.location.longitude - from.longitude) * METERS_PER_DEGREE * Math.cos(from.latitude * Math.PI / 180);
+    const first = Math.abs(north);
+    const second = Math.abs(east);
+
+    return {
+      destination: to,
+      distanceMeters: first + second,
+      durationSeconds: (first + second) / 1.2,
+      steps: [
+        { type: 'depart', street: 'Main Street', location: from, distanceMeters: first },
+        { type: 'turn', modifier: (north >= 0) === (east >= 0) ? 'right' : 'left', street: 'Market Street', location: corner, distanceMeters: second },
+        { type: 'arrive', street: '', location: to.location, distanceMeters: 0 },
+      ],
+      path: [from, corner, to.location],
+    };
+  }
+}
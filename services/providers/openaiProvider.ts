@@ -0,0 +1,65 @@
+import { ModelTier, VisionProvider, VisionRequest, VisionResponse } from "../visionProvider";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;   // e.g. http://localhost:8787/v1
+  apiKey: string;
+  fastModel: string;
+  proModel: string;
+}
+
+/**
+ * Any endpoint speaking the OpenAI Chat Completions API with image input
+ * (OpenAI, vLLM, Ollama, LM Studio, or the local mock server in server/).
+ */
+export class OpenAICompatibleProvider implements VisionProvider {
+  public readonly name = 'openai';
+  public readonly supportsMaps = false;
+  public readonly models: Record<ModelTier, string>;
+
+  private config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.models = { fast: config.fastModel, pro: config.proModel };
+  }
+
+  public async generate(request: VisionRequest): Promise<VisionResponse> {
+    const model = this.models[request.tier];
+
+    const content: any[] = [{ type: 'text', text: request.prompt }];
+    if (request.imageBase64) {
+      content.push({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${request.imageBase64}` } });
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+    const res = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      }),
+      signal: request.signal,
+    });
+
+    if (!res.ok) {
+      // Keep the status so callers can apply the same 5xx retry rules as for Gemini
+      const error: any = new Error(`Vision endpoint returned ${res.status}`);
+      error.status = res.status;
+      throw error;
+    }
+
+    const data = await res.json();
+    const usage = data?.usage;
+    return {
+      text: data?.choices?.[0]?.message?.content || "",
+      model,
+      usage: usage ? { inputTokens: Number(usage.prompt_tokens) || 0, outputTokens: Number(usage.completion_tokens) || 0 } : undefined,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { GeoLocation } from "../../types";
+import { ManeuverModifier, ManeuverType, Place, Route, RouteStep, RoutingBackend } from "../routingBackend";
+import { getLocale } from "../i18n";
+
+interface OsrmConfig {
+  baseUrl: string;       // e.g. https://routing.openstreetmap.de/routed-foot or http://localhost:8788
+  profile: string;       // OSRM profile in the URL, usually "foot"
+  geocoderUrl: string;   // Nominatim-compatible search endpoint
+}
+
+const MODIFIERS: ManeuverModifier[] = ['left', 'right', 'slight left', 'slight right', 'sharp left', 'sharp right', 'straight', 'uturn'];
+
+// Nominatim bias box around the user, in degrees (about 20 km)
+const NEAR_BOX_DEGREES = 0.2;
+
+const toLocation = ([longitude, latitude]: number[]): GeoLocation => ({ latitude, longitude });
+
+const toStep = (step: any): RouteStep | null => {
+  const maneuver = step?.maneuver;
+  if (!maneuver || !Array.isArray(maneuver.location)) return null;
+  // Notifications mark a change of road attributes, not something to do
+  if (maneuver.type === 'notification') return null;
+
+  const modifier: ManeuverModifier | undefined = MODIFIERS.includes(maneuver.modifier) ? maneuver.modifier : undefined;
+  const type: ManeuverType = maneuver.type === 'depart' || maneuver.type === 'arrive'
+    ? maneuver.type
+    : (!modifier || modifier === 'straight' ? 'continue' : 'turn');
+
+  return {
+    type,
+    modifier,
+    street: typeof step.name === 'string' ? step.name : '',
+    location: toLocation(maneuver.location),
+    distanceMeters: Number(step.distance) || 0,
+  };
+};
+
+/**
+ * OSRM HTTP route API for walking routes and a Nominatim-style search API for
+ * destinations. Works against the public OpenStreetMap servers, a self-hosted
+ * OSRM, or the local stub in server/.
+ */
+export class OsrmRoutingBackend implements RoutingBackend {
+  public readonly name = 'osrm';
+
+  private config: OsrmConfig;
+
+  constructor(config: OsrmConfig) {
+    this.config = config;
+  }
+
+  public async geocode(query: string, near?: GeoLocation): Promise<Place | null> {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      limit: '1',
+      'accept-language': getLocale(),
+    });
+    if (near) {
+      const { latitude: lat, longitude: lon } = near;
+      params.set('viewbox', [lon - NEAR_BOX_DEGREES, lat + NEAR_BOX_DEGREES, lon + NEAR_BOX_DEGREES, lat - NEAR_BOX_DEGREES].join(','));
+    }
+
+    const res = await fetch(`${this.config.geocoderUrl.replace(/\/$/, '')}/search?${params}`);
+    if (!res.ok) throw new Error(`Geocoder returned ${res.status}`);
+
+    const results = await res.json();
+    const first = Array.isArray(results) ? results[0] : null;
+    if (!first) return null;
+
+    const latitude = Number(first.lat);
+    const longitude = Number(first.lon);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+    return {
+      name: first.name || String(first.display_name || query).split(',')[0],
+      location: { latitude, longitude },
+    };
+  }
+
+  public async route(from: GeoLocation, to: Place): Promise<Route> {
+    const coordinates = `${from.longitude},${from.latitude};${to.location.longitude},${to.location.latitude}`;
+    const url = `${this.config.baseUrl.replace(/\/$/, '')}/route/v1/${this.config.profile}/${coordinates}` +
+      '?steps=true&overview=full&geometries=geojson';
+
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Routing endpoint returned ${res.status}`);
+
+    const data = await res.json();
+    const route = data?.routes?.[0];
+    if (data?.code !== 'Ok' || !route) throw new Error(`No route: ${data?.code || 'empty response'}`);
+
+    const steps: RouteStep[] = (route.legs || [])
+      .flatMap((leg: any) => leg.steps || [])
+      .map(toStep)
+      .filter((s: RouteStep | null): s is RouteStep => s !== null);
+    if (steps.length < 2) throw new Error("Route has no steps");
+
+    return {
+      destination: to,
+      distanceMeters: Number(route.distance) || 0,
+      durationSeconds: Number(route.duration) || 0,
+      steps,
+      path: (route.geometry?.coordinates || []).map(toLocation),
+    };
+  }
+}
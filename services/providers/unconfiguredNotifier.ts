@@ -0,0 +1,13 @@
+import { SosMessage, SosNotifier } from "../sosNotifier";
+
+/**
+ * Stands in when no way to reach the contacts is configured. Every send fails,
+ * so the user is told no one was alerted instead of hearing a false "SOS sent".
+ */
+export class UnconfiguredSosNotifier implements SosNotifier {
+  public readonly name = 'none';
+
+  public async send(message: SosMessage): Promise<void> {
+    throw new Error(`No SOS notifier configured, ${message.event} not sent`);
+  }
+}
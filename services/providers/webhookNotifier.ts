@@ -0,0 +1,33 @@
+import { SosMessage, SosNotifier } from "../sosNotifier";
+
+// Retries for one message; an SOS that fails to send is worse than a slow one
+const MAX_ATTEMPTS = 3;
+
+/**
+ * POSTs each SOS message as JSON to a webhook (an SMS/e-mail relay, a chat bot,
+ * or the local stand-in in server/). The receiver forwards it to the contacts.
+ */
+export class WebhookSosNotifier implements SosNotifier {
+  public readonly name = 'webhook';
+
+  constructor(private url: string, private token: string = '') { }
+
+  public async send(message: SosMessage): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) headers['Authorization'] = `Bearer ${this.token}`;
+
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        const res = await fetch(this.url, { method: 'POST', headers, body: JSON.stringify(message) });
+        if (res.ok) return;
+        lastError = new Error(`SOS webhook returned ${res.status}`);
+      } catch (e) {
+        lastError = e;
+      }
+      console.warn(`🆘 SOS send failed (attempt ${attempt}):`, lastError);
+      if (attempt < MAX_ATTEMPTS) await new Promise(r => setTimeout(r, 1000 * attempt));
+    }
+    throw lastError;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { GeoLocation } from '../types';
+import { Route } from './routingBackend';
+import { RouteEvent, RouteTracker } from './routeGuidance';
+
+const METERS_PER_DEGREE = 111195;
+const START: GeoLocation = { latitude: 10, longitude: 106 };
+
+/**
+ * A point `north` and `east` meters from the start.
+ */
+const at = (north: number, east: number): GeoLocation => ({
+  latitude: START.latitude + north / METERS_PER_DEGREE,
+  longitude: START.longitude + east / (METERS_PER_DEGREE * Math.cos(START.latitude * Math.PI / 180)),
+});
+
+// 200 m north, turn right, 200 m east to the pharmacy
+const ROUTE: Route = {
+  destination: { name: 'pharmacy', location: at(200, 200) },
+  distanceMeters: 400,
+  durationSeconds: 300,
+  steps: [
+    { type: 'depart', street: 'Main Street', location: START, distanceMeters: 200 },
+    { type: 'turn', modifier: 'right', street: 'Market Street', location: at(200, 0), distanceMeters: 200 },
+    { type: 'arrive', street: '', location: at(200, 200), distanceMeters: 0 },
+  ],
+  path: [START, at(100, 0), at(200, 0), at(200, 100), at(200, 200)],
+};
+
+const walk = (tracker: RouteTracker, fixes: GeoLocation[]): RouteEvent[] =>
+  fixes.map(fix => tracker.update(fix)).filter((e): e is RouteEvent => e !== null);
+
+describe('RouteTracker', () => {
+  it('announces the turn when walked past it, then arrival', () => {
+    const tracker = new RouteTracker(ROUTE);
+    const fixes = [
+      ...[0, 20, 40, 60, 80, 100, 120, 140, 160, 180, 195].map(n => at(n, 0)),
+      ...[20, 60, 100, 140, 170, 190].map(e => at(200, e)),
+    ];
+
+    const events = walk(tracker, fixes);
+    expect(events.map(e => `${e.kind}:${e.step}`)).toEqual(['prepare:1', 'now:1', 'prepare:2', 'arrived:2']);
+    expect(tracker.isFinished).toBe(true);
+  });
+
+  it('moves on when a GPS jump skips over the turn', () => {
+    const tracker = new RouteTracker(ROUTE);
+    // The last fix before the corner is 20 m short of it, the next one 25 m past it
+    const fixes = [...[0, 40, 80, 120, 160, 180].map(n => at(n, 0)), at(200, 25)];
+
+    const events = walk(tracker, fixes);
+    expect(events.map(e => e.kind)).toEqual(['prepare']);
+    expect(tracker.statusSpeech(at(200, 25))).toContain('pharmacy');
+
+    // From here on it guides to the destination, not back to the turn already taken
+    const later = walk(tracker, [70, 110, 150, 170, 190].map(e => at(200, e)));
+    expect(later.map(e => `${e.kind}:${e.step}`)).toEqual(['prepare:2', 'arrived:2']);
+  });
+
+  it('does not skip a turn for a jittery fix still before it', () => {
+    const tracker = new RouteTracker(ROUTE);
+    walk(tracker, [0, 40, 80, 120].map(n => at(n, 0)));
+
+    expect(tracker.update(at(170, 5))).toMatchObject({ kind: 'prepare', step: 1 });
+    expect(tracker.update(at(195, 0))).toMatchObject({ kind: 'now', step: 1 });
+  });
+});
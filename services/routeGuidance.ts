@@ -0,0 +1,252 @@
+import { GeoLocation } from "../types";
+import { Route, RouteStep } from "./routingBackend";
+import { t } from "./i18n";
+import { getPreferences } from "./preferences";
+
+const EARTH_RADIUS_M = 6371000;
+// Say "in 40 meters, turn left" this far before a manoeuvre
+const PREPARE_DISTANCE_M = 40;
+// Within this radius the manoeuvre is due now (GPS is rarely better than 10 m)
+const MANEUVER_RADIUS_M = 15;
+// Further than this from the route line counts as off route
+const OFF_ROUTE_DISTANCE_M = 35;
+// Consecutive fixes off the route before rerouting, so one bad fix doesn't trigger it
+const OFF_ROUTE_FIXES = 3;
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * Great-circle distance in meters.
+ */
+export const distanceBetween = (a: GeoLocation, b: GeoLocation): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Closest point of a segment to a point, on a local flat projection (fine at walking scale):
+ * how far along the segment it is (0..1) and how far away.
+ */
+const projectOnSegment = (p: GeoLocation, a: GeoLocation, b: GeoLocation): { fraction: number; distance: number } => {
+  const scale = Math.cos(toRadians(p.latitude));
+  const ax = (a.longitude - p.longitude) * scale, ay = a.latitude - p.latitude;
+  const bx = (b.longitude - p.longitude) * scale, by = b.latitude - p.latitude;
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const fraction = lengthSq === 0 ? 0 : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSq));
+  const x = ax + fraction * dx, y = ay + fraction * dy;
+  return { fraction, distance: Math.sqrt(x * x + y * y) * (Math.PI / 180) * EARTH_RADIUS_M };
+};
+
+const distanceToSegment = (p: GeoLocation, a: GeoLocation, b: GeoLocation): number =>
+  projectOnSegment(p, a, b).distance;
+
+const routeLine = (route: Route): GeoLocation[] =>
+  route.path.length >= 2 ? route.path : route.steps.map(s => s.location);
+
+/**
+ * Shortest distance from a point to the route line.
+ */
+export const distanceToRoute = (route: Route, p: GeoLocation): number => {
+  const path = routeLine(route);
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    best = Math.min(best, distanceToSegment(p, path[i - 1], path[i]));
+  }
+  return path.length === 1 ? distanceBetween(p, path[0]) : best;
+};
+
+/**
+ * Route distances in the user's unit; long ones in kilometers.
+ */
+export const describeRouteDistance = (meters: number): string => {
+  const { distanceUnit, strideLengthMeters } = getPreferences();
+  if (distanceUnit === 'feet') {
+    return t('routeFeet', { feet: Math.max(10, Math.round(meters * 3.28 / 10) * 10) });
+  }
+  // Hundreds of steps are hard to picture, so longer distances are given in meters
+  if (distanceUnit === 'steps' && meters < 100) {
+    return t('routeSteps', { steps: Math.max(1, Math.round(meters / strideLengthMeters)) });
+  }
+  return meters >= 1000
+    ? t('routeKilometers', { km: Math.round(meters / 100) / 10 })
+    : t('routeMeters', { meters: Math.max(5, Math.round(meters / 5) * 5) });
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const MODIFIER_KEYS = {
+  left: 'routeLeft',
+  right: 'routeRight',
+  'slight left': 'routeSlightLeft',
+  'slight right': 'routeSlightRight',
+  'sharp left': 'routeSharpLeft',
+  'sharp right': 'routeSharpRight',
+  straight: 'routeStraight',
+  uturn: 'routeUturn',
+} as const;
+
+/**
+ * What to do at a step, e.g. "turn left onto Market Street".
+ */
+export const describeManeuver = (step: RouteStep, destinationName: string): string => {
+  if (step.type === 'arrive') return t('routeArriveAt', { place: destinationName });
+  if (step.type === 'depart') return step.street ? t('routeDepartOnto', { street: step.street }) : t('routeDepart');
+
+  const action = t(MODIFIER_KEYS[step.modifier || 'straight']);
+  return step.street ? t('routeOnto', { action, street: step.street }) : action;
+};
+
+export type RouteEventKind = 'prepare' | 'now' | 'arrived' | 'offRoute';
+
+export interface RouteEvent {
+  kind: RouteEventKind;
+  text: string;        // Sentence to speak
+  step: number;        // Index of the step it is about
+}
+
+/**
+ * Follows the user along a route from GPS fixes and says when to turn:
+ * once ahead of each manoeuvre, once when it is due, and on arrival.
+ * Reports when the user has left the route so the caller can plan a new one.
+ */
+export class RouteTracker {
+  private next = 1;            // Index of the upcoming manoeuvre
+  private prepared = false;    // The "in 40 meters" warning for it was given
+  private offRouteFixes = 0;
+  private finished = false;
+  private line: GeoLocation[];
+  private lineAlong: number[];     // Meters from the start to each point of the line
+  private stepAlong: number[];     // Meters from the start to each manoeuvre
+
+  constructor(public readonly route: Route) {
+    this.line = routeLine(route);
+    this.lineAlong = this.line.map(() => 0);
+    for (let i = 1; i < this.line.length; i++) {
+      this.lineAlong[i] = this.lineAlong[i - 1] + distanceBetween(this.line[i - 1], this.line[i]);
+    }
+    // Each manoeuvre is placed after the previous one, so a route that doubles back keeps its order
+    this.stepAlong = [];
+    for (const step of route.steps) {
+      const from = this.stepAlong.length ? this.stepAlong[this.stepAlong.length - 1] : 0;
+      this.stepAlong.push(this.progressAlong(step.location, from));
+    }
+  }
+
+  /**
+   * Meters along the route of the closest point to `location`, not before `fromMeters`.
+   */
+  private progressAlong(location: GeoLocation, fromMeters: number): number {
+    if (this.line.length < 2) return 0;
+    let best = { along: fromMeters, distance: Infinity };
+    for (let i = 1; i < this.line.length; i++) {
+      if (this.lineAlong[i] < fromMeters) continue;
+      const { fraction, distance } = projectOnSegment(location, this.line[i - 1], this.line[i]);
+      const along = Math.max(fromMeters, this.lineAlong[i - 1] + fraction * (this.lineAlong[i] - this.lineAlong[i - 1]));
+      if (distance < best.distance) best = { along, distance };
+    }
+    return best.along;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Summary and first instruction, spoken when the route starts.
+   */
+  startSpeech(): string {
+    const { destination, distanceMeters, durationSeconds, steps } = this.route;
+    return t('routeStarted', {
+      place: destination.name,
+      distance: describeRouteDistance(distanceMeters),
+      minutes: Math.max(1, Math.round(durationSeconds / 60)),
+      instruction: capitalize(describeManeuver(steps[0], destination.name)),
+    });
+  }
+
+  /**
+   * Feeds a GPS fix. Returns what to announce, if anything.
+   */
+  update(location: GeoLocation): RouteEvent | null {
+    if (this.finished) return null;
+
+    if (distanceToRoute(this.route, location) > OFF_ROUTE_DISTANCE_M) {
+      this.offRouteFixes++;
+      if (this.offRouteFixes === OFF_ROUTE_FIXES) {
+        return { kind: 'offRoute', text: t('routeOffRoute'), step: this.next };
+      }
+      return null;
+    }
+    this.offRouteFixes = 0;
+
+    // GPS can jump well past a manoeuvre without a fix inside its radius: move on to
+    // the first one still ahead of where the fix lies on the route
+    const along = this.progressAlong(location, this.stepAlong[this.next - 1]);
+    const last = this.route.steps.length - 1;
+    while (this.next < last && this.stepAlong[this.next] < along - MANEUVER_RADIUS_M) {
+      this.next++;
+      this.prepared = false;
+    }
+
+    const step = this.route.steps[this.next];
+    const place = this.route.destination.name;
+    const distance = distanceBetween(location, step.location);
+    const action = describeManeuver(step, place);
+
+    if (distance <= MANEUVER_RADIUS_M) {
+      const index = this.next;
+      if (step.type === 'arrive') {
+        this.finished = true;
+        return { kind: 'arrived', text: t('routeArrived', { place }), step: index };
+      }
+      this.next++;
+      this.prepared = false;
+      return { kind: 'now', text: t('routeNow', { action }), step: index };
+    }
+
+    if (!this.prepared && distance <= PREPARE_DISTANCE_M + MANEUVER_RADIUS_M) {
+      this.prepared = true;
+      const text = step.type === 'arrive'
+        ? capitalize(t('routeArriving', { place, distance: describeRouteDistance(distance) }))
+        : t('routePrepare', { distance: describeRouteDistance(distance), action });
+      return { kind: 'prepare', text, step: this.next };
+    }
+
+    return null;
+  }
+
+  /**
+   * An announcement was dropped or cut off (e.g. by a hazard warning):
+   * give the advance warning again on the next fix if it still applies.
+   */
+  unheard(event: RouteEvent) {
+    if (event.kind === 'prepare' && event.step === this.next) this.prepared = false;
+  }
+
+  /**
+   * Remaining distance and the next instruction, for "how far is it".
+   */
+  statusSpeech(location: GeoLocation): string {
+    const { steps, destination } = this.route;
+    const step = steps[this.next];
+    return t('routeStatus', {
+      distance: describeRouteDistance(this.remainingMeters(location)),
+      place: destination.name,
+      next: describeRouteDistance(distanceBetween(location, step.location)),
+      instruction: describeManeuver(step, destination.name),
+    });
+  }
+
+  /**
+   * Rough remaining distance in meters, for the HUD.
+   */
+  remainingMeters(location: GeoLocation): number {
+    const step = this.route.steps[this.next];
+    return distanceBetween(location, step.location) +
+      this.route.steps.slice(this.next).reduce((sum, s) => sum + s.distanceMeters, 0);
+  }
+}
@@ -0,0 +1,83 @@
+import { GeoLocation } from "../types";
+import { OsrmRoutingBackend } from "./providers/osrmRouting";
+import { MockRoutingBackend } from "./providers/mockRouting";
+
+export type ManeuverType = 'depart' | 'turn' | 'continue' | 'arrive';
+
+export type ManeuverModifier =
+  | 'left'
+  | 'right'
+  | 'slight left'
+  | 'slight right'
+  | 'sharp left'
+  | 'sharp right'
+  | 'straight'
+  | 'uturn';
+
+export interface Place {
+  name: string;
+  location: GeoLocation;
+}
+
+export interface RouteStep {
+  type: ManeuverType;
+  modifier?: ManeuverModifier;
+  street: string;            // Name of the way walked after the manoeuvre, '' if unnamed
+  location: GeoLocation;     // Where the manoeuvre happens
+  distanceMeters: number;    // Length of this step, up to the next manoeuvre
+}
+
+export interface Route {
+  destination: Place;
+  distanceMeters: number;
+  durationSeconds: number;
+  steps: RouteStep[];        // Starts with 'depart', ends with 'arrive'
+  path: GeoLocation[];       // Full line, used to tell when the user has left the route
+}
+
+/**
+ * Turns a spoken destination into a place and plans walking routes.
+ * Implementations speak to an HTTP service or fake it for offline development.
+ */
+export interface RoutingBackend {
+  readonly name: string;
+  geocode(query: string, near?: GeoLocation): Promise<Place | null>;
+  route(from: GeoLocation, to: Place): Promise<Route>;
+}
+
+let backendInstance: RoutingBackend | null = null;
+
+/**
+ * Builds the backend selected by ROUTING_PROVIDER (osrm | mock).
+ * OSRM defaults to the public OpenStreetMap foot router and Nominatim geocoder.
+ */
+const createBackendFromEnv = (): RoutingBackend => {
+  const kind = (process.env.ROUTING_PROVIDER || 'osrm').toLowerCase();
+
+  switch (kind) {
+    case 'mock':
+      return new MockRoutingBackend();
+    case 'osrm':
+    default:
+      return new OsrmRoutingBackend({
+        baseUrl: process.env.ROUTING_BASE_URL || 'https://routing.openstreetmap.de/routed-foot',
+        profile: process.env.ROUTING_PROFILE || 'foot',
+        geocoderUrl: process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org',
+      });
+  }
+};
+
+export const getRoutingBackend = (): RoutingBackend => {
+  if (!backendInstance) {
+    backendInstance = createBackendFromEnv();
+    console.log(`🗺️ Routing backend: ${backendInstance.name}`);
+  }
+  return backendInstance;
+};
+
+/**
+ * Swap the active backend at runtime (offline development, demos).
+ */
+export const setRoutingBackend = (backend: RoutingBackend) => {
+  backendInstance = backend;
+};
@@ -0,0 +1,85 @@
+import { GeoLocation } from "../types";
+import { WebhookSosNotifier } from "./providers/webhookNotifier";
+import { MockSosNotifier } from "./providers/mockNotifier";
+import { UnconfiguredSosNotifier } from "./providers/unconfiguredNotifier";
+
+export type SosTrigger = 'voice' | 'gesture' | 'fall';
+
+// alert: first message; location: repeated while active; resolved: the user said they are safe
+export type SosEvent = 'alert' | 'location' | 'resolved';
+
+export interface SosMessage {
+  event: SosEvent;
+  trigger: SosTrigger;
+  contacts: string[];           // Who should be told, as configured (phone numbers, emails, ids)
+  timestamp: string;            // ISO 8601
+  location: GeoLocation | null;
+  mapsUrl: string | null;       // Link contacts can open directly
+  snapshot?: string;            // Camera frame as a JPEG data URL, on the alert only
+  lastGuidance?: string;        // Last thing the app said, for context
+  language: string;             // The user's app language
+}
+
+/**
+ * Delivers SOS messages to the user's emergency contacts.
+ */
+export interface SosNotifier {
+  readonly name: string;
+  send(message: SosMessage): Promise<void>;
+}
+
+let notifierInstance: SosNotifier | null = null;
+
+/**
+ * Emergency contacts from SOS_CONTACTS (comma separated).
+ */
+export const getSosContacts = (): string[] =>
+  (process.env.SOS_CONTACTS || '').split(',').map(c => c.trim()).filter(Boolean);
+
+/**
+ * Builds the notifier selected by SOS_NOTIFIER (webhook | mock). The mock is
+ * only used when asked for by name: a webhook without SOS_WEBHOOK_URL can't
+ * deliver anything, so every send fails and the user is told so.
+ */
+const createNotifierFromEnv = (): SosNotifier => {
+  const kind = (process.env.SOS_NOTIFIER || 'webhook').toLowerCase();
+  const url = process.env.SOS_WEBHOOK_URL || '';
+
+  switch (kind) {
+    case 'mock':
+      return new MockSosNotifier();
+    case 'webhook':
+    default:
+      if (!url) {
+        console.warn("🆘 SOS_WEBHOOK_URL is not set: an SOS will not reach anyone");
+        return new UnconfiguredSosNotifier();
+      }
+      return new WebhookSosNotifier(url, process.env.SOS_WEBHOOK_TOKEN || '');
+  }
+};
+
+export const getSosNotifier = (): SosNotifier => {
+  if (!notifierInstance) {
+    notifierInstance = createNotifierFromEnv();
+    console.log(`🆘 SOS notifier: ${notifierInstance.name}`);
+  }
+  return notifierInstance;
+};
+
+/**
+ * Whether an SOS can leave the device at all (the mock counts, it was asked for).
+ */
+export const isSosNotifierConfigured = (): boolean => getSosNotifier().name !== 'none';
+
+/**
+ * Swap the active notifier at runtime (testing, demos).
+ */
+export const setSosNotifier = (notifier: SosNotifier) => {
+  notifierInstance = notifier;
+};
+
+/**
+ * Map link contacts can open on any phone.
+ */
+export const mapsLink = (location: GeoLocation): string =>
+  `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
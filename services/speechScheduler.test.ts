@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechEngine, SpeechScheduler } from './speechScheduler';
+
+/**
+ * Records what it was asked to say; `finish()` ends the utterance playing now.
+ */
+class FakeEngine implements SpeechEngine {
+  spoken: string[] = [];
+  cancels = 0;
+  private onDone: ((error?: string) => void) | null = null;
+
+  speak(text: string, onDone: (error?: string) => void) {
+    this.spoken.push(text);
+    this.onDone = onDone;
+  }
+
+  cancel() {
+    this.cancels++;
+    this.onDone = null;
+  }
+
+  finish(error?: string) {
+    const onDone = this.onDone;
+    this.onDone = null;
+    onDone?.(error);
+  }
+}
+
+const setup = () => {
+  const engine = new FakeEngine();
+  let now = 0;
+  const scheduler = new SpeechScheduler(engine, () => now);
+  return { engine, scheduler, advance: (ms: number) => { now += ms; } };
+};
+
+describe('SpeechScheduler', () => {
+  it('cuts off a lower priority message for a higher one', async () => {
+    const { engine, scheduler } = setup();
+
+    const chatter = scheduler.speak('The sky is clear', { priority: 'low' });
+    const warning = scheduler.speak('Stop, car ahead', { priority: 'critical' });
+
+    expect(await chatter).toBe('interrupted');
+    expect(engine.cancels).toBe(1);
+    expect(engine.spoken).toEqual(['The sky is clear', 'Stop, car ahead']);
+
+    engine.finish();
+    expect(await warning).toBe('spoken');
+  });
+
+  it('lets a lower priority message wait its turn', async () => {
+    const { engine, scheduler } = setup();
+
+    const warning = scheduler.speak('Stop, car ahead', { priority: 'critical' });
+    const chatter = scheduler.speak('The sky is clear', { priority: 'low' });
+    expect(engine.spoken).toEqual(['Stop, car ahead']);
+
+    engine.finish();
+    expect(await warning).toBe('spoken');
+    expect(engine.spoken).toEqual(['Stop, car ahead', 'The sky is clear']);
+
+    engine.finish();
+    expect(await chatter).toBe('spoken');
+  });
+
+  it('replaces older guidance on the same channel, queued or playing', async () => {
+    const { engine, scheduler } = setup();
+
+    const first = scheduler.speak('Path clear', { channel: 'nav' });
+    const queued = scheduler.speak('Door on your left');
+    const second = scheduler.speak('Step down ahead', { channel: 'nav' });
+    const third = scheduler.speak('Turn right', { channel: 'nav' });
+
+    expect(await first).toBe('superseded');
+    expect(await second).toBe('superseded');
+    expect(scheduler.pending.map(item => item.text)).toEqual(['Turn right']);
+
+    engine.finish();
+    expect(await queued).toBe('spoken');
+    engine.finish();
+    expect(await third).toBe('spoken');
+    expect(engine.spoken).toEqual(['Path clear', 'Door on your left', 'Turn right']);
+  });
+
+  it('does not let a lower priority message replace a higher one on its channel', async () => {
+    const { engine, scheduler } = setup();
+
+    scheduler.speak('Stairs going down', { channel: 'nav', priority: 'high' });
+    scheduler.speak('Path clear', { channel: 'nav', priority: 'low' });
+
+    expect(engine.cancels).toBe(0);
+    expect(scheduler.pending.map(item => item.text)).toEqual(['Path clear']);
+  });
+
+  it('drops a message that expired while it waited', async () => {
+    const { engine, scheduler, advance } = setup();
+
+    scheduler.speak('Reading the whole menu');
+    const stale = scheduler.speak('Person ahead', { expiresInMs: 2000 });
+    const alsoStale = scheduler.speak('Bench on your right', { expiresInMs: 2000 });
+
+    advance(2500);
+    scheduler.speak('Late but current', { expiresInMs: 2000 });
+    engine.finish();
+
+    expect(await stale).toBe('expired');
+    expect(await alsoStale).toBe('expired');
+    expect(engine.spoken).toEqual(['Reading the whole menu', 'Late but current']);
+  });
+
+  it('coalesces the same message instead of saying it twice', async () => {
+    const { engine, scheduler } = setup();
+
+    const first = scheduler.speak('Low battery');
+    const again = scheduler.speak('  Low battery ');
+    expect(again).toBe(first);
+
+    scheduler.speak('Next message');
+    const queuedTwice = scheduler.speak('Next message');
+    engine.finish();
+    engine.finish();
+
+    expect(await queuedTwice).toBe('spoken');
+    expect(engine.spoken).toEqual(['Low battery', 'Next message']);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Speech scheduling, independent of the browser so ordering can be tested with a fake engine.
+ *
+ * Rules, in order:
+ *  1. Coalescing: the same text at the same priority, already queued or playing, is not queued twice.
+ *  2. Channels: a new message replaces older ones of equal or lower priority on its
+ *     channel (queued or playing), e.g. fresh navigation guidance makes the previous guidance obsolete.
+ *  3. Preemption: a higher priority cuts off what is playing; a lower one waits.
+ *  4. Expiry: a message still queued after `expiresInMs` is dropped instead of spoken late.
+ */
+
+export type SpeechPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export type SpeechOutcome = 'spoken' | 'interrupted' | 'superseded' | 'expired' | 'cancelled' | 'error';
+
+export interface SpeakOptions {
+  priority?: SpeechPriority;   // Default 'normal'
+  channel?: string;            // Messages on the same channel replace each other
+  expiresInMs?: number;        // Drop if it hasn't started within this time
+}
+
+/**
+ * Whatever actually produces sound. onDone fires once per utterance (with the error
+ * if it failed); after cancel() the scheduler ignores it.
+ */
+export interface SpeechEngine {
+  speak(text: string, onDone: (error?: string) => void): void;
+  cancel(): void;
+}
+
+export interface SpeechItem {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  channel?: string;
+  expiresAt: number | null;
+  queuedAt: number;
+}
+
+export type SpeechEvent =
+  | { type: 'start'; item: SpeechItem }
+  | { type: 'end'; item: SpeechItem; outcome: SpeechOutcome };
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  critical: 3,
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+interface Entry {
+  item: SpeechItem;
+  promise: Promise<SpeechOutcome>;
+  resolve: (outcome: SpeechOutcome) => void;
+}
+
+export class SpeechScheduler {
+  private queue: Entry[] = [];
+  private current: Entry | null = null;
+  private nextId = 1;
+  private listeners = new Set<(event: SpeechEvent) => void>();
+
+  constructor(private engine: SpeechEngine, private now: () => number = Date.now) { }
+
+  /**
+   * Queues text and resolves once it has been spoken or dropped.
+   */
+  speak(text: string, options: SpeakOptions = {}): Promise<SpeechOutcome> {
+    const priority = options.priority ?? 'normal';
+    const trimmed = text.trim();
+    if (!trimmed) return Promise.resolve('spoken');
+
+    // 1. Coalesce duplicates
+    const duplicate = [this.current, ...this.queue].find(e =>
+      e && e.item.text === trimmed && e.item.priority === priority && e.item.channel === options.channel
+    );
+    if (duplicate) return duplicate.promise;
+
+    const now = this.now();
+    const item: SpeechItem = {
+      id: this.nextId++,
+      text: trimmed,
+      priority,
+      channel: options.channel,
+      expiresAt: options.expiresInMs !== undefined ? now + options.expiresInMs : null,
+      queuedAt: now,
+    };
+
+    let resolve!: (outcome: SpeechOutcome) => void;
+    const promise = new Promise<SpeechOutcome>(r => { resolve = r; });
+    const entry: Entry = { item, promise, resolve };
+
+    // 2. Newer message on the same channel replaces older ones
+    const replaces = (other: SpeechItem) =>
+      !!item.channel && other.channel === item.channel && PRIORITY_RANK[other.priority] <= PRIORITY_RANK[priority];
+
+    if (item.channel) {
+      this.queue = this.queue.filter(e => {
+        if (!replaces(e.item)) return true;
+        this.finish(e, 'superseded');
+        return false;
+      });
+    }
+
+    // Queue by priority, first-in first-out within a priority
+    const index = this.queue.findIndex(e => PRIORITY_RANK[e.item.priority] < PRIORITY_RANK[priority]);
+    if (index === -1) this.queue.push(entry); else this.queue.splice(index, 0, entry);
+
+    // 3. Cut off what is playing if the new message outranks it or replaces it
+    if (this.current) {
+      if (replaces(this.current.item)) {
+        this.stopCurrent('superseded');
+      } else if (PRIORITY_RANK[priority] > PRIORITY_RANK[this.current.item.priority]) {
+        this.stopCurrent('interrupted');
+      }
+    }
+
+    this.pump();
+    return promise;
+  }
+
+  /**
+   * Silences everything and empties the queue.
+   */
+  cancelAll() {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(e => this.finish(e, 'cancelled'));
+    this.stopCurrent('cancelled');
+  }
+
+  /**
+   * Drops every message on a channel, queued or playing, e.g. guidance after navigation stops.
+   */
+  cancelChannel(channel: string) {
+    this.queue = this.queue.filter(e => {
+      if (e.item.channel !== channel) return true;
+      this.finish(e, 'cancelled');
+      return false;
+    });
+    if (this.current?.item.channel === channel) {
+      this.stopCurrent('cancelled');
+      this.pump();
+    }
+  }
+
+  get isSpeaking(): boolean {
+    return this.current !== null;
+  }
+
+  get pending(): SpeechItem[] {
+    return this.queue.map(e => e.item);
+  }
+
+  subscribe(listener: (event: SpeechEvent) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private stopCurrent(outcome: SpeechOutcome) {
+    if (!this.current) return;
+    const entry = this.current;
+    this.current = null;
+    this.engine.cancel();
+    this.finish(entry, outcome);
+  }
+
+  private pump() {
+    if (this.current) return;
+
+    // 4. Skip anything that went stale while it waited
+    let entry = this.queue.shift();
+    while (entry && entry.item.expiresAt !== null && this.now() > entry.item.expiresAt) {
+      this.finish(entry, 'expired');
+      entry = this.queue.shift();
+    }
+    if (!entry) return;
+
+    const started = entry;
+    this.current = started;
+    this.emit({ type: 'start', item: started.item });
+
+    this.engine.speak(started.item.text, (error) => {
+      // Ignore callbacks for an utterance we already cut off
+      if (this.current !== started) return;
+      this.current = null;
+      this.finish(started, error ? 'error' : 'spoken');
+      this.pump();
+    });
+  }
+
+  private finish(entry: Entry, outcome: SpeechOutcome) {
+    entry.resolve(outcome);
+    this.emit({ type: 'end', item: entry.item, outcome });
+  }
+
+  private emit(event: SpeechEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -1,55 +1,140 @@
 
-export const speak = (text: string, priority: 'high' | 'normal' = 'normal') => {
-  if (!window.speechSynthesis) return;
+import { getLocale } from "./i18n";
+import { getPreferences } from "./preferences";
+import { SpeakOptions, SpeechEngine, SpeechOutcome, SpeechPriority, SpeechScheduler } from "./speechScheduler";
 
-  // Cancel current speech if high priority (safety warning)
-  if (priority === 'high') {
-    window.speechSynthesis.cancel();
-  }
+/**
+ * Best voice for a locale: Google voices first (highest quality in Chrome),
+ * then an exact locale match, then any voice of the same language.
+ * Returns undefined if none fits; the browser then picks by utterance.lang.
+ */
+const pickVoice = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | undefined => {
+  const language = locale.split('-')[0];
+  const exact = voices.filter(v => v.lang.replace('_', '-') === locale);
+  return exact.find(v => v.name.includes('Google')) ||
+         exact[0] ||
+         voices.find(v => v.lang.startsWith(language));
+};
 
-  const performSpeak = () => {
-    const utterance = new SpeechSynthesisUtterance(text);
-    
-    // Attempt to find preferred voices
-    const voices = window.speechSynthesis.getVoices();
-    // Prioritize high quality Google voices, then standard English
-    const preferredVoice = voices.find(v => v.name.includes('Google US English')) || 
-                           voices.find(v => v.lang.startsWith('en-US')) ||
-                           voices[0];
-                           
-    if (preferredVoice) utterance.voice = preferredVoice;
-
-    utterance.rate = 1.1; // Reduced to 0.9 for a more relaxed, natural pace
-    utterance.pitch = 1.0;
-    
-    // Add event handlers for debugging
-    utterance.onerror = (e) => {
-        // Ignore expected interruptions (when we cancel speech to say something urgent)
-        if (e.error === 'interrupted' || e.error === 'canceled') return;
-        console.error("TTS Error:", e.error);
-    };
+// Chrome drops an utterance queued right after cancel(); give the cancel a moment
+const CANCEL_SETTLE_MS = 50;
+// Speak anyway if the voice list never arrives (some browsers never fire voiceschanged)
+const VOICES_TIMEOUT_MS = 1000;
 
-    window.speechSynthesis.speak(utterance);
+/**
+ * Waits for the voice list without taking over the global onvoiceschanged handler.
+ */
+const whenVoicesReady = (callback: () => void) => {
+  const synth = window.speechSynthesis;
+  if (synth.getVoices().length > 0) {
+    callback();
+    return;
+  }
+
+  let done = false;
+  const ready = () => {
+    if (done) return;
+    done = true;
+    synth.removeEventListener('voiceschanged', ready);
+    callback();
   };
+  synth.addEventListener('voiceschanged', ready);
+  setTimeout(ready, VOICES_TIMEOUT_MS);
+};
 
-  // Chrome sometimes needs a moment to load voices
-  if (window.speechSynthesis.getVoices().length === 0) {
-    window.speechSynthesis.onvoiceschanged = () => {
-        performSpeak();
-        window.speechSynthesis.onvoiceschanged = null;
+/**
+ * Web Speech API engine. Voice, rate, pitch and volume come from the user's preferences.
+ */
+class BrowserSpeechEngine implements SpeechEngine {
+  private lastCancelAt = 0;
+  private generation = 0;   // Bumped by cancel() so a delayed utterance doesn't start afterwards
+
+  speak(text: string, onDone: (error?: string) => void) {
+    if (!window.speechSynthesis) {
+      onDone('unsupported');
+      return;
+    }
+
+    const generation = this.generation;
+
+    const performSpeak = () => {
+      if (generation !== this.generation) return;
+      const utterance = new SpeechSynthesisUtterance(text);
+
+      // The user's chosen voice if it speaks the current language, else the best match
+      const locale = getLocale();
+      const prefs = getPreferences();
+      const voices = window.speechSynthesis.getVoices();
+      const chosenVoice = prefs.voiceName
+        ? voices.find(v => v.name === prefs.voiceName && v.lang.startsWith(locale.split('-')[0]))
+        : undefined;
+      const preferredVoice = chosenVoice || pickVoice(voices, locale);
+
+      utterance.lang = locale;
+      if (preferredVoice) utterance.voice = preferredVoice;
+
+      utterance.rate = prefs.speechRate;
+      utterance.pitch = prefs.speechPitch;
+      utterance.volume = prefs.speechVolume;
+
+      utterance.onend = () => onDone();
+      utterance.onerror = (e) => {
+        // Expected when we cancel speech to say something more urgent
+        if (e.error !== 'interrupted' && e.error !== 'canceled') {
+          console.error("TTS Error:", e.error);
+        }
+        onDone(e.error);
+      };
+
+      window.speechSynthesis.speak(utterance);
     };
-  } else {
-    // If high priority, give a tiny delay for the cancel() to register fully
-    if (priority === 'high') {
-        setTimeout(performSpeak, 50);
-    } else {
+
+    whenVoicesReady(() => {
+      const sinceCancel = Date.now() - this.lastCancelAt;
+      if (sinceCancel < CANCEL_SETTLE_MS) {
+        setTimeout(performSpeak, CANCEL_SETTLE_MS - sinceCancel);
+      } else {
         performSpeak();
-    }
+      }
+    });
   }
-};
 
-export const stopSpeaking = () => {
-  if (window.speechSynthesis) {
+  cancel() {
+    if (!window.speechSynthesis) return;
+    this.lastCancelAt = Date.now();
+    this.generation++;
     window.speechSynthesis.cancel();
   }
+}
+
+let scheduler = new SpeechScheduler(new BrowserSpeechEngine());
+
+/**
+ * Swap the speech engine (tests, or a platform TTS). Anything still queued is dropped.
+ */
+export const setSpeechEngine = (engine: SpeechEngine) => {
+  scheduler.cancelAll();
+  scheduler = new SpeechScheduler(engine);
+};
+
+export const getSpeechScheduler = (): SpeechScheduler => scheduler;
+
+/**
+ * Queues text for speech. Resolves with how it ended: spoken, interrupted,
+ * superseded by newer guidance, expired or cancelled.
+ */
+export const speak = (text: string, options: SpeechPriority | SpeakOptions = {}): Promise<SpeechOutcome> =>
+  scheduler.speak(text, typeof options === 'string' ? { priority: options } : options);
+
+/**
+ * Voices that can speak the given locale (for the settings screen).
+ */
+export const getVoicesForLocale = (locale: string = getLocale()): SpeechSynthesisVoice[] => {
+  if (!window.speechSynthesis) return [];
+  const language = locale.split('-')[0];
+  return window.speechSynthesis.getVoices().filter(v => v.lang.startsWith(language));
+};
+
+export const stopSpeaking = () => {
+  scheduler.cancelAll();
 };
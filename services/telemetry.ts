@@ -0,0 +1,184 @@
+import { ModelTier, TokenUsage } from "./visionProvider";
+import { getModelInfo } from "./modelRegistry";
+
+// What a model call was for
+export type CallPurpose = 'router' | 'navigation' | 'assistant' | 'document' | 'money' | 'live';
+
+export const CALL_PURPOSES: CallPurpose[] = ['router', 'navigation', 'assistant', 'document', 'money', 'live'];
+
+export interface ModelCallRecord {
+  timestamp: number;
+  purpose: CallPurpose;
+  provider: string;
+  model: string;
+  tier: ModelTier;             // Tier actually called
+  degraded: boolean;           // Asked for pro, sent to fast because the daily budget is used up
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  attempt: number;             // 1 for the first try, 2+ for retries
+  failover: boolean;           // Made because a call on a better tier failed
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;           // Sum, for averages
+  errors: number;
+  retries: number;
+  failovers: number;
+  degraded: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string;                 // Local date, YYYY-MM-DD
+  byPurpose: Record<CallPurpose, UsageTotals>;
+}
+
+export interface TelemetrySnapshot {
+  today: DailyUsage;
+  recent: ModelCallRecord[];   // Newest first
+}
+
+// Daily limits from .env.local; 0 means no limit
+const DAILY_TOKEN_BUDGET = Number(process.env.DAILY_TOKEN_BUDGET) || 0;
+const DAILY_COST_BUDGET_USD = Number(process.env.DAILY_COST_BUDGET_USD) || 0;
+
+const STORAGE_KEY = 'blindeye.telemetry';
+const MAX_RECENT = 200;
+// Navigation calls every second or two; saving is batched
+const SAVE_DELAY_MS = 2000;
+
+const localDay = (time: number = Date.now()): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, latencyMs: 0, errors: 0, retries: 0, failovers: 0, degraded: 0,
+});
+
+const emptyDay = (day: string = localDay()): DailyUsage => ({
+  ...emptyTotals(),
+  day,
+  byPurpose: Object.fromEntries(CALL_PURPOSES.map(p => [p, emptyTotals()])) as Record<CallPurpose, UsageTotals>,
+});
+
+const loadSnapshot = (): TelemetrySnapshot => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const saved = JSON.parse(raw) as TelemetrySnapshot;
+      const today = saved.today?.day === localDay()
+        ? { ...emptyDay(), ...saved.today, byPurpose: { ...emptyDay().byPurpose, ...saved.today.byPurpose } }
+        : emptyDay();
+      return { today, recent: Array.isArray(saved.recent) ? saved.recent.slice(0, MAX_RECENT) : [] };
+    }
+  } catch (e) {
+    console.warn("📊 Could not read telemetry:", e);
+  }
+  return { today: emptyDay(), recent: [] };
+};
+
+let snapshot: TelemetrySnapshot = loadSnapshot();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const save = () => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    try { localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot)); } catch (e) { }
+  }, SAVE_DELAY_MS);
+};
+
+const update = (next: TelemetrySnapshot) => {
+  snapshot = next;
+  save();
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Today's usage and the latest calls. Rolls over to a new day on first read after midnight.
+ */
+export const getTelemetry = (): TelemetrySnapshot => {
+  if (snapshot.today.day !== localDay()) snapshot = { ...snapshot, today: emptyDay() };
+  return snapshot;
+};
+
+export const subscribeTelemetry = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Estimated USD from the registry prices; models without a price cost 0.
+ */
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const { price } = getModelInfo(model);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+const addTo = (totals: UsageTotals, record: ModelCallRecord): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + record.inputTokens,
+  outputTokens: totals.outputTokens + record.outputTokens,
+  costUsd: totals.costUsd + record.costUsd,
+  latencyMs: totals.latencyMs + record.latencyMs,
+  errors: totals.errors + (record.error ? 1 : 0),
+  retries: totals.retries + (record.attempt > 1 ? 1 : 0),
+  failovers: totals.failovers + (record.failover ? 1 : 0),
+  degraded: totals.degraded + (record.degraded ? 1 : 0),
+});
+
+/**
+ * Records one model call (successful or not) and prices it.
+ */
+export const recordModelCall = (call: Omit<ModelCallRecord, 'costUsd' | 'inputTokens' | 'outputTokens'> & { usage?: TokenUsage }) => {
+  const { usage, ...rest } = call;
+  const tokens = usage || { inputTokens: 0, outputTokens: 0 };
+  const record: ModelCallRecord = { ...rest, ...tokens, costUsd: estimateCost(call.model, tokens) };
+
+  const { today, recent } = getTelemetry();
+  update({
+    today: {
+      ...addTo(today, record),
+      day: today.day,
+      byPurpose: { ...today.byPurpose, [record.purpose]: addTo(today.byPurpose[record.purpose], record) },
+    },
+    recent: [record, ...recent].slice(0, MAX_RECENT),
+  });
+};
+
+export const clearTelemetry = () => update({ today: emptyDay(), recent: [] });
+
+export interface BudgetStatus {
+  tokenLimit: number;          // 0 = no limit
+  costLimitUsd: number;        // 0 = no limit
+  tokensUsed: number;
+  costUsed: number;
+  exceeded: boolean;
+}
+
+export const getBudgetStatus = (today: DailyUsage = getTelemetry().today): BudgetStatus => {
+  const tokensUsed = today.inputTokens + today.outputTokens;
+  return {
+    tokenLimit: DAILY_TOKEN_BUDGET,
+    costLimitUsd: DAILY_COST_BUDGET_USD,
+    tokensUsed,
+    costUsed: today.costUsd,
+    exceeded: (DAILY_TOKEN_BUDGET > 0 && tokensUsed >= DAILY_TOKEN_BUDGET) ||
+      (DAILY_COST_BUDGET_USD > 0 && today.costUsd >= DAILY_COST_BUDGET_USD),
+  };
+};
+
+/**
+ * Tier to call once the budget is taken into account: over budget, pro becomes fast.
+ */
+export const budgetedTier = (tier: ModelTier): ModelTier =>
+  tier === 'pro' && getBudgetStatus().exceeded ? 'fast' : tier;
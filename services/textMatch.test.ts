@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { containsPhrase } from './textMatch';
+
+describe('containsPhrase', () => {
+  it('matches whole words only', () => {
+    expect(containsPhrase('is it good to cross', 'go')).toBe(false);
+    expect(containsPhrase('somewhat dark here', 'what')).toBe(false);
+    expect(containsPhrase('can i go left', 'go')).toBe(true);
+    expect(containsPhrase("what's this", 'what')).toBe(true);
+    expect(containsPhrase('read the signs', 'sign')).toBe(true);
+  });
+
+  it('matches a phrase with regex characters literally', () => {
+    expect(containsPhrase('is this a 1.5 litre bottle', '1.5')).toBe(true);
+    expect(containsPhrase('is this a 105 litre bottle', '1.5')).toBe(false);
+  });
+
+  it('handles Vietnamese letters at word edges', () => {
+    expect(containsPhrase('đây là tờ tiền gì', 'tiền')).toBe(true);
+    expect(containsPhrase('đi thẳng', 'đi')).toBe(true);
+    expect(containsPhrase('điện thoại', 'đi')).toBe(false);
+  });
+});
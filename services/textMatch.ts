@@ -0,0 +1,22 @@
+/**
+ * Matching keywords in what the user said, shared by the intent parsers and the model router.
+ */
+
+// Lets arbitrary text, e.g. a saved phrase, be matched literally inside a RegExp
+export const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const phraseRegExps = new Map<string, RegExp>();
+
+/**
+ * Whether the phrase occurs as whole words (a plural "s" or "'s" allowed), so
+ * "go" doesn't match "good". Letter boundaries are Unicode-aware, unlike \b,
+ * so Vietnamese words work too. The text should already be lower case.
+ */
+export const containsPhrase = (text: string, phrase: string): boolean => {
+  let regex = phraseRegExps.get(phrase);
+  if (!regex) {
+    regex = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?:s|'s)?(?![\\p{L}\\p{N}])`, 'u');
+    phraseRegExps.set(phrase, regex);
+  }
+  return regex.test(text);
+};
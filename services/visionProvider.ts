@@ -0,0 +1,86 @@
+import { GeoLocation } from "../types";
+import { GeminiVisionProvider } from "./providers/geminiProvider";
+import { OpenAICompatibleProvider } from "./providers/openaiProvider";
+import { MockVisionProvider } from "./providers/mockProvider";
+import { TIER_MODELS } from "./modelRegistry";
+
+/**
+ * Model tiers the app asks for. Each provider maps a tier to its own model name,
+ * so the rest of the app never hard-codes a vendor model.
+ */
+export type ModelTier = 'fast' | 'pro';
+
+export interface VisionRequest {
+  tier: ModelTier;
+  prompt: string;
+  imageBase64?: string;     // Raw base64 JPEG (no data: prefix)
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean;           // Ask the backend for a JSON-only response
+  useMaps?: boolean;        // Grounding with maps, only honoured by providers that support it
+  location?: GeoLocation;
+  signal?: AbortSignal;     // Cancels the request, e.g. once its answer would come too late to use
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface VisionResponse {
+  text: string;
+  model: string;
+  usage?: TokenUsage;       // As reported by the backend, when it does
+}
+
+export interface VisionProvider {
+  readonly name: string;
+  readonly models: Record<ModelTier, string>;
+  readonly supportsMaps: boolean;
+  generate(request: VisionRequest): Promise<VisionResponse>;
+}
+
+let providerInstance: VisionProvider | null = null;
+
+/**
+ * Builds the provider selected by VISION_PROVIDER (gemini | openai | mock).
+ * Defaults to Gemini so existing setups keep working unchanged.
+ */
+const createProviderFromEnv = (): VisionProvider => {
+  const kind = (process.env.VISION_PROVIDER || 'gemini').toLowerCase();
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.VISION_BASE_URL || 'http://localhost:8787/v1',
+        apiKey: process.env.VISION_API_KEY || '',
+        fastModel: process.env.VISION_FAST_MODEL || TIER_MODELS.openai.fast,
+        proModel: process.env.VISION_PRO_MODEL || TIER_MODELS.openai.pro,
+      });
+    case 'mock':
+      return new MockVisionProvider();
+    case 'gemini':
+    default:
+      return new GeminiVisionProvider(process.env.API_KEY || "");
+  }
+};
+
+export const getVisionProvider = (): VisionProvider => {
+  if (!providerInstance) {
+    providerInstance = createProviderFromEnv();
+    console.log(`👁️ Vision provider: ${providerInstance.name}`);
+  }
+  return providerInstance;
+};
+
+/**
+ * Swap the active provider at runtime (offline development, CI, demos).
+ */
+export const setVisionProvider = (provider: VisionProvider) => {
+  providerInstance = provider;
+};
+
+/**
+ * Strips the data URL prefix that react-webcam adds to screenshots.
+ */
+export const toRawBase64 = (image: string): string => image.split(',')[1] || image;
@@ -0,0 +1,64 @@
+export type VoiceActivityEvent = 'start' | 'end';
+
+interface VoiceActivityOptions {
+  minLevel?: number;          // Absolute RMS floor that can count as speech
+  noiseMultiplier?: number;   // Speech must be this much louder than the noise floor
+  startChunks?: number;       // Consecutive loud chunks needed to open a segment
+  hangoverChunks?: number;    // Consecutive quiet chunks needed to close it
+}
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor.
+ * Feed it one level per audio chunk; it reports segment start/end.
+ */
+export class VoiceActivityDetector {
+  private noiseFloor = 0.005;
+  private loudRun = 0;
+  private quietRun = 0;
+  private speaking = false;
+  private minLevel: number;
+  private noiseMultiplier: number;
+  private startChunks: number;
+  private hangoverChunks: number;
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.minLevel = options.minLevel ?? 0.01;
+    this.noiseMultiplier = options.noiseMultiplier ?? 3;
+    this.startChunks = options.startChunks ?? 2;
+    this.hangoverChunks = options.hangoverChunks ?? 8;
+  }
+
+  public get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public process(rms: number): VoiceActivityEvent | null {
+    const loud = rms > Math.max(this.minLevel, this.noiseFloor * this.noiseMultiplier);
+
+    if (!this.speaking) {
+      // Track background noise only while nobody is talking
+      if (!loud) this.noiseFloor = this.noiseFloor * 0.95 + rms * 0.05;
+      this.loudRun = loud ? this.loudRun + 1 : 0;
+      if (this.loudRun >= this.startChunks) {
+        this.speaking = true;
+        this.quietRun = 0;
+        return 'start';
+      }
+      return null;
+    }
+
+    this.quietRun = loud ? 0 : this.quietRun + 1;
+    if (this.quietRun >= this.hangoverChunks) {
+      this.speaking = false;
+      this.loudRun = 0;
+      return 'end';
+    }
+    return null;
+  }
+
+  public reset() {
+    this.speaking = false;
+    this.loudRun = 0;
+    this.quietRun = 0;
+  }
+}
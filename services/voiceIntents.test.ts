@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseIntent } from './voiceIntents';
+import { matchWakePhrase } from './wakeWord';
+
+describe('parseIntent', () => {
+  it('forgets a named place', () => {
+    expect(parseIntent('forget the bus stop')).toMatchObject({ intent: 'deletePlace', value: 'bus stop' });
+    expect(parseIntent('please forget about school')).toMatchObject({ intent: 'deletePlace', value: 'school' });
+    expect(parseIntent('delete place home')).toMatchObject({ intent: 'deletePlace', value: 'home' });
+  });
+
+  it('does not treat "forget it" as deleting a place', () => {
+    for (const command of ['forget it', 'Forget that.', 'forget about it', 'forget this please', 'forget everything', 'forget all of that']) {
+      expect(parseIntent(command)?.intent).not.toBe('deletePlace');
+    }
+  });
+
+  it('still forgets places whose names start with a pronoun', () => {
+    expect(parseIntent('forget that coffee shop')).toMatchObject({ intent: 'deletePlace', value: 'that coffee shop' });
+  });
+
+  it('answers a read-back place deletion only while it is asked', () => {
+    expect(parseIntent('yes', ['placeDelete'])?.intent).toBe('confirmDeletePlace');
+    expect(parseIntent('no keep it', ['placeDelete'])?.intent).toBe('keepPlace');
+    expect(parseIntent('không', ['placeDelete'])?.intent).toBe('keepPlace');
+    expect(parseIntent('yes')).toBeNull();
+  });
+});
+
+describe('matchWakePhrase', () => {
+  it('wakes on the phrase and common mishearings of it', () => {
+    expect(matchWakePhrase('hey eye what is this', 'hey eye')).toEqual({ rest: 'what is this' });
+    expect(matchWakePhrase('hay ai read this', 'hey eye')).toEqual({ rest: 'read this' });
+  });
+
+  it('does not wake on ordinary greetings', () => {
+    expect(matchWakePhrase('hi I am here', 'hey eye')).toBeNull();
+    expect(matchWakePhrase('hey I will be late', 'hey eye')).toBeNull();
+  });
+});
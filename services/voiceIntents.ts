@@ -0,0 +1,397 @@
+import { normalizeSpeech } from "./wakeWord";
+
+/**
+ * Control commands handled on-device, without an image or a model call.
+ * Add a value here and a rule below, then a handler in App.
+ */
+export type VoiceIntent =
+  | 'startNavigation'
+  | 'stopNavigation'
+  | 'repeat'
+  | 'previous'
+  | 'clearHistory'
+  | 'louder'
+  | 'quieter'
+  | 'slower'
+  | 'faster'
+  | 'switchLanguage'
+  | 'help'
+  // Document reading
+  | 'scanPage'
+  | 'newDocument'
+  | 'continueReading'
+  | 'nextBlock'
+  | 'previousBlock'
+  | 'nextPage'
+  | 'previousPage'
+  | 'readTotal'
+  | 'spell'
+  | 'closeDocument'
+  // Money counting
+  | 'countMoney'
+  | 'countNote'
+  | 'moneyTotal'
+  | 'resetMoney'
+  | 'stopCounting'
+  // Walking directions
+  | 'routeTo'
+  | 'routeStatus'
+  | 'cancelRoute'
+  // Saved places
+  | 'savePlace'
+  | 'listPlaces'
+  | 'renamePlace'
+  | 'deletePlace'
+  | 'confirmDeletePlace'
+  | 'keepPlace'
+  // Sighted helper call
+  | 'callHelper'
+  | 'endCall'
+  | 'admitHelper'
+  | 'declineHelper'
+  // Emergency
+  | 'sos'
+  | 'cancelSos';
+
+// Screens or modes that enable extra, shorter commands ("next", "go back")
+export type IntentContext = 'document' | 'money' | 'sos' | 'helperKnock' | 'placeDelete';
+
+export interface IntentRule {
+  intent: VoiceIntent;
+  // Alternatives for the whole utterance (English and Vietnamese), matched after normalizeSpeech().
+  // Free text such as a destination is captured with (.+?)
+  phrases: string[];
+  value?: string;   // Passed to the handler, e.g. the language asked for
+  context?: IntentContext;   // Only active in this context
+}
+
+export interface IntentMatch {
+  intent: VoiceIntent;
+  value?: string;      // The rule's value, or the first captured text
+  captures?: string[]; // All captured text in order, e.g. old and new name
+}
+
+// Politeness around a command doesn't turn it into a question
+const PREFIX = '(?:(?:please|can you|could you|hãy|làm ơn|xin) )?';
+const SUFFIX = '(?: (?:please|now|for me|đi|nhé|giùm|giúp|ngay))?';
+
+/**
+ * Order matters: the first rule that matches wins, so specific phrases go first.
+ */
+export const INTENT_RULES: IntentRule[] = [
+  // Emergency: during an SOS countdown or alert, "stop" and "I'm okay" mean the user is safe
+  {
+    intent: 'cancelSos',
+    context: 'sos',
+    phrases: [
+      "(?:cancel|stop|abort)(?: (?:it|that|the alarm|the alert|sos|help))?", "i'?m (?:ok|okay|fine|alright|all right|safe)",
+      "(?:it's |it was )?(?:a )?false alarm", "(?:i )?(?:don't|do not) need help",
+      '(?:hủy|dừng|tắt)(?: bỏ)?(?: cảnh báo| báo động)?', 'tôi (?:không sao|ổn|an toàn)(?: rồi)?', 'không sao(?: rồi)?', 'báo nhầm',
+    ],
+  },
+  // Sighted helper call: someone asked to join and is waiting for a yes or no
+  {
+    intent: 'admitHelper',
+    context: 'helperKnock',
+    phrases: [
+      '(?:yes|accept|allow|admit)(?: (?:it|them|him|her|the call))?', "let (?:them|him|her) (?:in|join)", "(?:ok|okay)(?: let (?:them|him|her) in)?",
+      '(?:có|đồng ý|chấp nhận)(?: cuộc gọi)?', 'cho (?:họ |người đó )?(?:vào|tham gia)',
+    ],
+  },
+  {
+    intent: 'declineHelper',
+    context: 'helperKnock',
+    phrases: [
+      'no', '(?:decline|reject|deny|refuse)(?: (?:it|them|him|her|the call))?', "(?:don't|do not) let (?:them|him|her) in",
+      'không(?: cho vào)?', 'từ chối(?: cuộc gọi)?',
+    ],
+  },
+  // Saved places: a name that only partly matched is read back before it is deleted
+  {
+    intent: 'confirmDeletePlace',
+    context: 'placeDelete',
+    phrases: [
+      '(?:yes|ok|okay)(?: (?:delete|forget|remove) (?:it|that))?', '(?:delete|forget|remove) (?:it|that)',
+      '(?:có|đồng ý)(?: xóa)?', 'xóa(?: nó)?',
+    ],
+  },
+  {
+    intent: 'keepPlace',
+    context: 'placeDelete',
+    phrases: [
+      'no', '(?:no )?keep (?:it|that)', "(?:no )?(?:don't|do not) (?:delete|forget|remove) (?:it|that)", 'cancel',
+      'không(?: xóa)?', 'giữ lại', 'hủy',
+    ],
+  },
+  // Money counting: while counting, these win over the document commands
+  {
+    intent: 'countNote',
+    context: 'money',
+    phrases: [
+      'next(?: (?:note|bill|one))?', '(?:add|count|check) (?:this|that|it)(?: (?:note|bill|one))?', 'another(?: one)?',
+      '(?:tờ )?tiếp(?: theo)?', '(?:đếm|thêm|kiểm tra) tờ (?:này|nữa)', 'tờ (?:này|nữa)',
+    ],
+  },
+  {
+    intent: 'moneyTotal',
+    context: 'money',
+    phrases: [
+      '(?:the )?total', "what(?: is|'s) the total", 'how much(?: is it| do i have)?(?: so far| in total)?',
+      '(?:tổng|tổng cộng|tổng bao nhiêu)', '(?:được |có )?bao nhiêu(?: rồi| tiền)?',
+    ],
+  },
+  {
+    intent: 'resetMoney',
+    context: 'money',
+    phrases: [
+      'reset(?: (?:the )?(?:total|count))?', 'start over', '(?:clear|zero) (?:the )?(?:total|count)', 'count again',
+      'đếm lại(?: từ đầu)?', '(?:xóa|đặt lại) tổng',
+    ],
+  },
+  {
+    intent: 'stopCounting',
+    context: 'money',
+    phrases: [
+      "(?:stop|finish|end) counting", "(?:i'm )?done", '(?:close|exit|leave) money mode',
+      '(?:dừng|ngừng|xong) đếm(?: tiền)?', 'xong(?: rồi)?', 'thoát chế độ (?:đếm )?tiền',
+    ],
+  },
+  // Document reading: paging commands only while a document is open
+  {
+    intent: 'nextPage',
+    context: 'document',
+    phrases: ['(?:go to (?:the )?)?next page', 'trang (?:sau|tiếp(?: theo)?)'],
+  },
+  {
+    intent: 'previousPage',
+    context: 'document',
+    phrases: ['(?:go to (?:the )?)?(?:previous|last) page', '(?:quay lại )?trang trước'],
+  },
+  {
+    intent: 'nextBlock',
+    context: 'document',
+    phrases: ['next(?: paragraph| section| line| part| one)?', 'skip', '(?:đoạn|dòng|phần) (?:tiếp|sau)(?: theo)?', 'tiếp theo'],
+  },
+  {
+    intent: 'previousBlock',
+    context: 'document',
+    phrases: ['(?:go )?back', 'previous(?: paragraph| section| line| part)', '(?:đoạn|dòng|phần) trước', '(?:quay|lùi) lại'],
+  },
+  {
+    intent: 'readTotal',
+    context: 'document',
+    phrases: ['(?:read |say )?(?:me )?the total', "what(?: is|'s) the total", 'how much is the total', '(?:đọc )?tổng(?: cộng| tiền)?(?: là bao nhiêu)?'],
+  },
+  {
+    intent: 'spell',
+    context: 'document',
+    phrases: ['spell(?: that| it| this)?(?: out)?', 'đánh vần(?: lại)?'],
+  },
+  {
+    intent: 'closeDocument',
+    context: 'document',
+    phrases: ['(?:close|exit|leave) (?:the )?document', 'đóng tài liệu', 'thoát tài liệu'],
+  },
+  {
+    intent: 'sos',
+    phrases: [
+      '(?:somebody )?help me', '(?:call|get) (?:for )?help', 'emergency', 's ?o ?s', "i(?: fell(?: down)?| have fallen| am lost|'m lost)",
+      'cứu(?: tôi)?(?: với)?', 'giúp tôi(?: với)?', 'khẩn cấp', 'gọi cấp cứu', 'tôi (?:bị ngã|bị lạc)',
+    ],
+  },
+  {
+    intent: 'scanPage',
+    phrases: [
+      '(?:scan|add|capture) (?:a |the |this |another |next )?page', '(?:read|scan) (?:a |the |this )?document', 'document mode',
+      '(?:quét|chụp|thêm) trang(?: này| tiếp| mới)?', '(?:đọc|quét) tài liệu(?: này)?',
+    ],
+  },
+  {
+    intent: 'newDocument',
+    phrases: ['(?:start |begin )?(?:a )?new document', 'tài liệu mới'],
+  },
+  {
+    intent: 'continueReading',
+    phrases: [
+      '(?:continue|keep|resume|start) reading', 'resume(?: the| my)? document', 'read (?:on|from here|it all|everything)', 'where was i',
+      'đọc tiếp', 'tiếp tục đọc', 'đọc hết',
+    ],
+  },
+  {
+    intent: 'routeTo',
+    phrases: [
+      '(?:take me|navigate|(?:give me |get )?directions|walk(?:ing)?(?: me)?|how do i get|(?:find )?(?:a )?route) to (.+?)',
+      '(?:đưa tôi|chỉ đường|dẫn(?: tôi)?(?: đường)?|đường) (?:đến|tới) (.+?)', '(?:chỉ đường|đường) đi (.+?)',
+    ],
+  },
+  {
+    intent: 'cancelRoute',
+    phrases: [
+      '(?:cancel|stop|end) (?:the )?(?:route|directions)', "(?:cancel|clear) (?:the |my )?destination",
+      '(?:hủy|dừng|tắt) (?:chỉ đường|lộ trình|điểm đến)',
+    ],
+  },
+  {
+    intent: 'callHelper',
+    phrases: [
+      '(?:call|video call|start a call with|connect me (?:to|with)) (?:a |my )?(?:sighted )?(?:helper|volunteer)', '(?:i need|get me) a (?:sighted )?helper',
+      'gọi (?:cho )?người (?:hỗ trợ|giúp đỡ|trợ giúp)', 'gọi video(?: cho người hỗ trợ)?',
+    ],
+  },
+  {
+    intent: 'endCall',
+    phrases: ['(?:end|stop|finish|leave) (?:the )?(?:video )?call', 'hang up', '(?:kết thúc|dừng|tắt) cuộc gọi', 'cúp máy'],
+  },
+  {
+    intent: 'routeStatus',
+    phrases: [
+      'how far(?: is it| is it now| to go)?', 'how much (?:further|farther)', 'are we there yet', "where(?: am i| are we)? going", "what's next",
+      'còn (?:bao xa|xa không|bao nhiêu)(?: nữa)?', 'sắp đến chưa', 'đến chưa',
+    ],
+  },
+  {
+    intent: 'savePlace',
+    phrases: [
+      '(?:remember|save|mark) (?:this|here|the current) ?(?:place|spot|location)? as (.+?)',
+      '(?:nhớ|lưu|đánh dấu) (?:nơi|chỗ|vị trí|địa điểm) này (?:là|tên là) (.+?)',
+    ],
+  },
+  {
+    intent: 'listPlaces',
+    phrases: [
+      '(?:list|read|what are) (?:my |the )?(?:saved )?places', '(?:(?:my|the) )?saved places', 'what places (?:have i saved|do you (?:know|remember))',
+      '(?:liệt kê|đọc|kể) (?:các )?(?:nơi|địa điểm) đã lưu', '(?:các )?(?:nơi|địa điểm) đã lưu',
+    ],
+  },
+  {
+    intent: 'renamePlace',
+    phrases: ['rename (?:the )?(?:place )?(.+?) (?:to|as) (.+?)', 'đổi tên (?:nơi |địa điểm )?(.+?) thành (.+?)'],
+  },
+  {
+    intent: 'countMoney',
+    phrases: [
+      '(?:count|start counting) (?:my |the |this )?(?:money|cash|notes|bills)', 'money mode',
+      'đếm tiền', 'chế độ (?:đếm )?tiền',
+    ],
+  },
+  {
+    intent: 'startNavigation',
+    phrases: [
+      '(?:start|begin|resume) (?:the )?(?:navigation|navigating|guiding|guidance)',
+      'start(?: live)?', 'navigate', 'guide me',
+      '(?:bắt đầu|tiếp tục)(?: dẫn đường)?', 'dẫn đường',
+    ],
+  },
+  {
+    intent: 'stopNavigation',
+    phrases: [
+      '(?:stop|end|pause) (?:the )?(?:navigation|navigating|guiding|guidance)',
+      'stop(?: it| that| talking)?', 'be quiet', 'quiet',
+      '(?:dừng|ngừng|tắt)(?: lại)?(?: dẫn đường)?', 'im lặng', 'im đi',
+    ],
+  },
+  {
+    intent: 'clearHistory',
+    phrases: ['(?:clear|delete|erase) (?:the |my )?history', 'xóa lịch sử'],
+  },
+  {
+    intent: 'deletePlace',
+    phrases: [
+      // "Forget it" and "forget that" are about the conversation, not a place
+      '(?:delete|forget|remove) (?:the )?(?:saved )?place (.+?)',
+      `forget (?!(?:about )?(?:it|that|this|them|everything|all(?: of (?:it|that))?)${SUFFIX}$)(?:about )?(?:the )?(.+?)`,
+      '(?:xóa|quên) (?:nơi|địa điểm|chỗ) (.+?)',
+    ],
+  },
+  {
+    intent: 'previous',
+    phrases: [
+      '(?:and |what did you say |what was )?before that', '(?:the )?(?:previous|earlier) (?:one|message)',
+      '(?:bạn )?(?:đã )?(?:nói gì )?trước đó', '(?:câu|cái) trước(?: đó)?',
+    ],
+  },
+  {
+    intent: 'repeat',
+    phrases: [
+      'repeat(?: that| it| again)?', 'say (?:that|it) again', 'what did you (?:say|just say)', 'come again', 'pardon',
+      '(?:nhắc|nói) lại(?: đi)?', 'bạn vừa nói gì',
+    ],
+  },
+  {
+    intent: 'louder',
+    phrases: [
+      'louder', 'speak up', '(?:turn|volume) up', '(?:increase|raise) (?:the )?volume',
+      '(?:nói )?to (?:hơn|lên)', 'tăng âm lượng',
+    ],
+  },
+  {
+    intent: 'quieter',
+    phrases: [
+      'quieter', 'softer', '(?:turn|volume) down', '(?:lower|decrease|reduce) (?:the )?volume',
+      '(?:nói )?nhỏ (?:hơn|lại)', 'giảm âm lượng',
+    ],
+  },
+  {
+    intent: 'slower',
+    phrases: ['(?:speak |talk )?(?:more )?slower', '(?:speak |talk )?more slowly', 'slow down', '(?:nói )?chậm (?:hơn|lại)'],
+  },
+  {
+    intent: 'faster',
+    phrases: ['(?:speak |talk )?faster', 'speed up', '(?:nói )?nhanh (?:hơn|lên)'],
+  },
+  {
+    intent: 'switchLanguage',
+    value: 'vi-VN',
+    phrases: ['(?:speak |switch to |change to )?vietnamese', '(?:nói |chuyển sang )?tiếng việt'],
+  },
+  {
+    intent: 'switchLanguage',
+    value: 'en-US',
+    phrases: ['(?:speak |switch to |change to )?english', '(?:nói |chuyển sang )?tiếng anh'],
+  },
+  {
+    intent: 'switchLanguage',
+    phrases: ['(?:switch|change) (?:the )?language', '(?:đổi|chuyển) ngôn ngữ'],
+  },
+  {
+    intent: 'help',
+    phrases: [
+      'help', 'what can (?:i|you) (?:say|do)', '(?:list |show )?(?:the )?commands',
+      'trợ giúp', 'tôi có thể nói gì', 'bạn làm được gì',
+    ],
+  },
+];
+
+const compiled = new Map<IntentRule, RegExp>();
+
+const ruleRegExp = (rule: IntentRule): RegExp => {
+  let regex = compiled.get(rule);
+  if (!regex) {
+    regex = new RegExp(`^${PREFIX}(?:${rule.phrases.join('|')})${SUFFIX}$`, 'u');
+    compiled.set(rule, regex);
+  }
+  return regex;
+};
+
+/**
+ * Matches a whole utterance against the intent table. Anything that isn't a
+ * recognised control command (questions, descriptions) returns null and goes to the model.
+ * Rules tied to a context only match while that context is active.
+ * Free text captured by a rule (a destination, a place name) is returned as the value.
+ */
+export const parseIntent = (command: string, contexts: IntentContext[] = []): IntentMatch | null => {
+  const c = normalizeSpeech(command);
+  if (!c) return null;
+
+  for (const rule of INTENT_RULES) {
+    if (rule.context && !contexts.includes(rule.context)) continue;
+    const match = ruleRegExp(rule).exec(c);
+    if (!match) continue;
+    // Only the alternative that matched has its groups set
+    const captures = match.slice(1).filter((g): g is string => g !== undefined);
+    return captures.length > 0
+      ? { intent: rule.intent, value: captures[0], captures }
+      : { intent: rule.intent, value: rule.value };
+  }
+  return null;
+};
@@ -0,0 +1,42 @@
+import { escapeRegExp } from './textMatch';
+
+/**
+ * Wake phrases offered in settings. Any other phrase saved in preferences also works.
+ */
+export const WAKE_PHRASES = ['hey eye', 'okay eye', 'hey guide', 'này mắt ơi'];
+
+// How the recognizer tends to hear short words in the phrases above. Common words
+// ("hi", "I") are left out: "hi, I..." in ordinary conversation must not wake the app
+const WORD_ALIASES: Record<string, string[]> = {
+  eye: ['ai', 'aye', 'eyes', 'high'],
+  hey: ['hay'],
+  okay: ['ok', 'o k'],
+  mắt: ['mặt', 'mất'],
+};
+
+/**
+ * Lower-case, strip punctuation except apostrophes and collapse whitespace (keeps Vietnamese letters).
+ */
+export const normalizeSpeech = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export interface WakeMatch {
+  rest: string;   // Whatever was said after the wake phrase (may be empty)
+}
+
+/**
+ * Looks for the wake phrase anywhere in a transcript. Returns null if it isn't there.
+ */
+export const matchWakePhrase = (transcript: string, wakePhrase: string): WakeMatch | null => {
+  const words = normalizeSpeech(wakePhrase).split(' ').filter(Boolean);
+  if (words.length === 0) return null;
+
+  const pattern = words
+    .map(word => `(?:${[word, ...(WORD_ALIASES[word] || [])].map(escapeRegExp).join('|')})`)
+    .join('\\s+');
+  const match = new RegExp(`(?:^|\\s)${pattern}(?=\\s|$)`, 'u').exec(normalizeSpeech(transcript));
+  if (!match) return null;
+
+  const rest = normalizeSpeech(transcript).slice(match.index + match[0].length).trim();
+  return { rest };
+};
@@ -2,6 +2,7 @@ export enum AppMode {
   IDLE = 'IDLE',
   NAVIGATING = 'NAVIGATING', // Fast Lane
   READING = 'READING',       // Smart Lane (Assistant)
+  LIVE = 'LIVE',             // Conversational Lane (Gemini Live)
   ERROR = 'ERROR'
 }
 
@@ -12,11 +13,67 @@ export interface AILogEntry {
   text: string;
 }
 
+export type HazardSeverity = 'high' | 'medium' | 'low';
+
+export interface Hazard {
+  type: string;            // e.g. "stairs down", "chair", "person"
+  clock: number;           // 1-12, 12 = straight ahead
+  distanceMeters: number;
+  distanceSteps: number;
+  severity: HazardSeverity;
+}
+
+export interface NavigationGuidance {
+  hazards: Hazard[];       // Sorted by severity, most urgent first
+  pathClear: boolean;
+  suggestion?: string;     // Short action, e.g. "Bear left."
+  speech: string;          // Sentence rendered from the fields above
+  source?: 'cloud' | 'device';  // 'device' = on-device offline detector (coarse)
+}
+
+export type DocumentBlockKind = 'heading' | 'paragraph' | 'list' | 'table' | 'price';
+
+export interface DocumentBlock {
+  kind: DocumentBlockKind;
+  text: string;            // What is read aloud (tables flattened row by row)
+  page: number;            // 1-based page it was scanned from
+  rows?: string[][];       // Table cells, for 'table'
+  amount?: number;         // Numeric value, for 'price'
+  isTotal?: boolean;       // Price line that is the total / amount due
+}
+
+export interface ReadingDocument {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  pageCount: number;
+  blocks: DocumentBlock[];
+  position: number;        // Index of the block being read, saved for resuming
+}
+
+export type BanknoteSide = 'front' | 'back' | 'unknown';
+
+export interface BanknoteReading {
+  currency: string;        // ISO 4217 code, e.g. "VND"; "" if no note is visible
+  denomination: number;    // Face value; 0 if no note is visible
+  side: BanknoteSide;
+  confidence: number;      // 0..1, the model's own estimate
+}
+
 export interface GeoLocation {
   latitude: number;
   longitude: number;
 }
 
+export interface SavedPlace {
+  id: string;
+  label: string;           // As the user said it, e.g. "bus stop"
+  location: GeoLocation;
+  photo?: string;          // Camera frame (data URL) taken when it was saved
+  createdAt: Date;
+}
+
 // Extend Window for Web Speech API support in TypeScript
 declare global {
   interface Window {
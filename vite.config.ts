@@ -1,7 +1,29 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The offline detector must work with no network, so its weights are checked in
+// under public/ and a build without them fails instead of shipping a broken fallback
+const requireOfflineModel = (modelUrl = '/models/coco-ssd/model.json'): Plugin => ({
+  name: 'require-offline-model',
+  apply: 'build',
+  buildStart() {
+    if (!modelUrl.startsWith('/')) return;   // Served from elsewhere on purpose
+    const manifestPath = path.resolve(__dirname, 'public', modelUrl.slice(1));
+    const missing = [manifestPath];
+    if (fs.existsSync(manifestPath)) {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      const shards: string[] = (manifest.weightsManifest || []).flatMap((group: { paths: string[] }) => group.paths);
+      missing.length = 0;
+      missing.push(...shards.map(shard => path.join(path.dirname(manifestPath), shard)).filter(file => !fs.existsSync(file)));
+    }
+    if (missing.length) {
+      this.error(`Offline model weights missing: ${missing.join(', ')}. Run \`npm run fetch:offline-model\` once and commit public/models.`);
+    }
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +31,31 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), requireOfflineModel(env.OFFLINE_MODEL_URL || undefined)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER),
+        'process.env.VISION_BASE_URL': JSON.stringify(env.VISION_BASE_URL),
+        'process.env.VISION_API_KEY': JSON.stringify(env.VISION_API_KEY),
+        'process.env.VISION_FAST_MODEL': JSON.stringify(env.VISION_FAST_MODEL),
+        'process.env.VISION_PRO_MODEL': JSON.stringify(env.VISION_PRO_MODEL),
+        'process.env.MODEL_ROUTER': JSON.stringify(env.MODEL_ROUTER),
+        'process.env.LIVE_VIDEO_FPS': JSON.stringify(env.LIVE_VIDEO_FPS),
+        'process.env.NAV_LATENCY_BUDGET_MS': JSON.stringify(env.NAV_LATENCY_BUDGET_MS),
+        'process.env.OFFLINE_MODEL_URL': JSON.stringify(env.OFFLINE_MODEL_URL),
+        'process.env.ROUTING_PROVIDER': JSON.stringify(env.ROUTING_PROVIDER),
+        'process.env.ROUTING_BASE_URL': JSON.stringify(env.ROUTING_BASE_URL),
+        'process.env.ROUTING_PROFILE': JSON.stringify(env.ROUTING_PROFILE),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL),
+        'process.env.SOS_NOTIFIER': JSON.stringify(env.SOS_NOTIFIER),
+        'process.env.SOS_WEBHOOK_URL': JSON.stringify(env.SOS_WEBHOOK_URL),
+        'process.env.SOS_WEBHOOK_TOKEN': JSON.stringify(env.SOS_WEBHOOK_TOKEN),
+        'process.env.SOS_CONTACTS': JSON.stringify(env.SOS_CONTACTS),
+        'process.env.HELPER_SIGNAL_URL': JSON.stringify(env.HELPER_SIGNAL_URL),
+        'process.env.HELPER_ICE_SERVERS': JSON.stringify(env.HELPER_ICE_SERVERS),
+        'process.env.DAILY_TOKEN_BUDGET': JSON.stringify(env.DAILY_TOKEN_BUDGET),
+        'process.env.DAILY_COST_BUDGET_USD': JSON.stringify(env.DAILY_COST_BUDGET_USD)
       },
       resolve: {
         alias: {